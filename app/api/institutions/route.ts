@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { handleRouteError } from '@/lib/apiErrors';
+import { getCachedInstitutions } from '@/lib/snapshots';
+import type { InstitutionsResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/institutions[?refresh=true]
+export async function GET(request: NextRequest) {
+  const refresh = request.nextUrl.searchParams.get('refresh');
+
+  try {
+    const data = await getCachedInstitutions({ refresh: refresh === 'true' || refresh === '1' });
+    return NextResponse.json<InstitutionsResponse>(data);
+  } catch (err) {
+    return handleRouteError(err, '/api/institutions');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { handleRouteError } from '@/lib/apiErrors';
+import { getCachedCatalogue } from '@/lib/snapshots';
+import type { CatalogueResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const isEnabled = (value: string | null) => value === 'true' || value === '1';
+
+// GET /api/services?categories=true&eservices=true[&refresh=true]
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  try {
+    const data = await getCachedCatalogue(
+      {
+        categories: isEnabled(params.get('categories')),
+        eservices: isEnabled(params.get('eservices')),
+      },
+      { refresh: isEnabled(params.get('refresh')) }
+    );
+    return NextResponse.json<CatalogueResponse>(data, {
+      headers: { 'X-Snapshot-Source': data.snapshot.source },
+    });
+  } catch (err) {
+    return handleRouteError(err, '/api/services');
+  }
+}
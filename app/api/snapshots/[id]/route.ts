@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { handleRouteError, jsonError } from '@/lib/apiErrors';
+import { readSnapshot } from '@/lib/snapshots';
+import type { CatalogueResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/snapshots/:id
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const snapshot = await readSnapshot(id);
+    if (!snapshot) {
+      return jsonError('SNAPSHOT_NOT_FOUND', `Instantané introuvable: ${id}`, 404);
+    }
+    return NextResponse.json<CatalogueResponse>({
+      ...snapshot.data,
+      snapshot: { ...snapshot.info, source: 'archive', stale: false },
+    });
+  } catch (err) {
+    return handleRouteError(err, '/api/snapshots/[id]');
+  }
+}
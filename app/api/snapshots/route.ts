@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { handleRouteError } from '@/lib/apiErrors';
+import { listSnapshots } from '@/lib/snapshots';
+import type { SnapshotInfo } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/snapshots[?variant=categories%2Beservices]
+export async function GET(request: NextRequest) {
+  try {
+    // Un « + » non encodé arrive comme une espace : variant=categories+eservices reste accepté
+    const variant = request.nextUrl.searchParams.get('variant')?.trim().split(/[\s+]+/).join('+') || undefined;
+    return NextResponse.json<{ snapshots: SnapshotInfo[] }>({ snapshots: await listSnapshots(variant) });
+  } catch (err) {
+    return handleRouteError(err, '/api/snapshots');
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/publicApi';
+
+// GET /api/v1/openapi.json
+export function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { EXAMPLES } from '@/lib/examples';
+
+// GET /api/v1/presets : transformations nommées utilisables avec ?preset=
+export function GET() {
+  return NextResponse.json({
+    presets: Object.entries(EXAMPLES).map(([id, example]) => ({
+      id,
+      title: example.title,
+      description: example.description,
+      fields: example.schema.fields.map(field => field.key),
+    })),
+  });
+}
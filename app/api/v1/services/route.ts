@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { handleRouteError, jsonError } from '@/lib/apiErrors';
+import { attachInstitutions } from '@/lib/institutions';
+import { negotiateFormat, pageToCsv, parsePublicQuery, queryServices, type PublicServicesResponse } from '@/lib/publicApi';
+import { getCachedCatalogue, getCachedInstitutions } from '@/lib/snapshots';
+import type { Institution } from '@/lib/types';
+import { validateApiResponse } from '@/lib/validation';
+
+export const dynamic = 'force-dynamic';
+
+const isEnabled = (value: string | null) => value === 'true' || value === '1';
+
+// Noms d'institutions facultatifs : le catalogue reste servi sans eux
+async function loadInstitutions(): Promise<Institution[]> {
+  try {
+    return (await getCachedInstitutions()).institutions;
+  } catch (err) {
+    console.warn('Institutions indisponibles pour /api/v1/services:', err);
+    return [];
+  }
+}
+
+// GET /api/v1/services?q=&category=&status=&keys=&preset=&sort=&page=&pageSize=
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const format = negotiateFormat(request.headers.get('accept'));
+  if (!format) {
+    return jsonError('NOT_ACCEPTABLE', 'Formats disponibles: application/json, text/csv', 406);
+  }
+
+  try {
+    const query = parsePublicQuery(params);
+    const catalogue = await getCachedCatalogue(
+      { categories: true, eservices: true },
+      { refresh: isEnabled(params.get('refresh')) }
+    );
+    const services = attachInstitutions(validateApiResponse(catalogue).valid, await loadInstitutions());
+    const page = await queryServices(services, query);
+
+    const headers = {
+      'Vary': 'Accept',
+      'X-Total-Count': String(page.pagination.total),
+      'X-Snapshot-Id': catalogue.snapshot.id,
+    };
+
+    if (format === 'csv') {
+      return new NextResponse(pageToCsv(page), {
+        headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' },
+      });
+    }
+    return NextResponse.json<PublicServicesResponse>({
+      ...page,
+      snapshot: { id: catalogue.snapshot.id, fetchedAt: catalogue.snapshot.fetchedAt, stale: catalogue.snapshot.stale },
+    }, { headers });
+  } catch (err) {
+    return handleRouteError(err, '/api/v1/services');
+  }
+}
@@ -0,0 +1,204 @@
+"use client"
+import React, { useMemo, useState } from 'react';
+import { Filter, X } from 'lucide-react';
+import ResultsTable from './ResultsTable';
+import { DataUtils } from '@/lib/dataUtils';
+import { filterServices, formatFilterExpression, type FilterNode } from '@/lib/filterExpression';
+import {
+  activityPerCategory, descriptionLengthDistribution, servicesPerCategory, urlCoveragePerInstitution,
+  type ChartBar, type ChartSegment,
+} from '@/lib/analytics';
+import type { CategoryTaxonomy } from '@/lib/taxonomy';
+import type { Service } from '@/lib/types';
+
+interface AnalyticsDashboardProps {
+  // Services après application des filtres courants
+  services: Service[];
+  // Taxonomie des catégories (alias, hiérarchie)
+  taxonomy?: CategoryTaxonomy;
+  // Ajouter la sélection aux filtres avancés
+  onAddFilter: (filter: FilterNode) => void;
+}
+
+interface DrillDown {
+  title: string;
+  filter: FilterNode;
+}
+
+const SEGMENT_COLORS: Record<string, string> = {
+  all: 'bg-indigo-500 hover:bg-indigo-600',
+  active: 'bg-green-500 hover:bg-green-600',
+  inactive: 'bg-red-400 hover:bg-red-500',
+  withUrl: 'bg-blue-500 hover:bg-blue-600',
+  withoutUrl: 'bg-gray-300 hover:bg-gray-400',
+};
+
+const LEGEND_COLORS: Record<string, string> = {
+  active: 'bg-green-500',
+  inactive: 'bg-red-400',
+  withUrl: 'bg-blue-500',
+  withoutUrl: 'bg-gray-300',
+};
+
+const COLLAPSED_BARS = 10;
+
+const DRILL_DOWN_KEYS = ['name', 'id', 'categories', 'status', 'institutionName', 'url'] as const;
+
+// Histogramme horizontal, segments cliquables
+function BarChart({ title, bars, onSelect, showPercent = false }: {
+  title: string;
+  bars: ChartBar[];
+  onSelect: (bar: ChartBar, segment: ChartSegment) => void;
+  showPercent?: boolean;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const max = Math.max(1, ...bars.map(bar => bar.total));
+  const visible = expanded ? bars : bars.slice(0, COLLAPSED_BARS);
+  const legend = bars[0]?.segments.filter(segment => LEGEND_COLORS[segment.key]) ?? [];
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-xl">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900">{title}</h3>
+        {legend.length > 0 && (
+          <div className="flex items-center gap-3 text-xs text-gray-500">
+            {legend.map(segment => (
+              <span key={segment.key} className="flex items-center">
+                <span className={`w-2.5 h-2.5 mr-1 rounded-sm ${LEGEND_COLORS[segment.key]}`} />
+                {segment.label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {bars.length === 0 ? (
+        <p className="text-xs text-gray-400">Aucune donnée</p>
+      ) : (
+        <div className="space-y-1.5">
+          {visible.map(bar => {
+            const main = bar.segments[0];
+            return (
+              <div key={bar.label} className="flex items-center text-xs">
+                <span className="w-40 pr-2 truncate text-gray-700" title={bar.label}>{bar.label}</span>
+                <div className="flex-1 h-4 bg-gray-50 rounded overflow-hidden">
+                  <div className="flex h-full" style={{ width: `${(bar.total / max) * 100}%` }}>
+                    {bar.segments.filter(segment => segment.count > 0).map(segment => (
+                      <button
+                        key={segment.key}
+                        onClick={() => onSelect(bar, segment)}
+                        className={`h-full transition-colors ${SEGMENT_COLORS[segment.key] ?? SEGMENT_COLORS.all}`}
+                        style={{ width: `${(segment.count / Math.max(1, bar.total)) * 100}%` }}
+                        title={`${bar.label} · ${segment.label} : ${segment.count}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+                <span className="w-16 pl-2 text-right text-gray-500">
+                  {showPercent && bar.total > 0
+                    ? `${Math.round((main.count / bar.total) * 100)} %`
+                    : bar.total}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {bars.length > COLLAPSED_BARS && (
+        <button onClick={() => setExpanded(!expanded)} className="mt-2 text-xs text-indigo-600 hover:text-indigo-800">
+          {expanded ? 'Réduire' : `Afficher les ${bars.length} éléments`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Tableau de bord : répartition des services filtrés, avec exploration au clic
+export default function AnalyticsDashboard({ services, taxonomy, onAddFilter }: AnalyticsDashboardProps) {
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const stats = useMemo(() => DataUtils.getStats(services, taxonomy), [services, taxonomy]);
+  const charts = useMemo(() => ({
+    perCategory: servicesPerCategory(services, taxonomy),
+    activity: activityPerCategory(services, taxonomy),
+    coverage: urlCoveragePerInstitution(services),
+    lengths: descriptionLengthDistribution(services),
+  }), [services, taxonomy]);
+
+  const drillServices = useMemo(
+    () => (drillDown ? filterServices(services, drillDown.filter) : []),
+    [services, drillDown]
+  );
+  const drillRows = useMemo(
+    () => DataUtils.formatServicesByKeys(drillServices, [...DRILL_DOWN_KEYS]),
+    [drillServices]
+  );
+
+  const select = (bar: ChartBar, segment: ChartSegment) => {
+    setDrillDown({
+      title: bar.segments.length > 1 ? `${bar.label} · ${segment.label}` : bar.label,
+      filter: segment.filter,
+    });
+  };
+
+  if (services.length === 0) {
+    return (
+      <div className="border-2 border-dashed border-gray-300 rounded-xl p-12 text-center text-gray-500">
+        Aucun service ne correspond aux filtres appliqués
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: 'Services', value: stats.total },
+          { label: 'Actifs', value: stats.active },
+          { label: 'Avec e-service', value: stats.withUrl },
+          { label: 'Catégories', value: stats.categories },
+        ].map(card => (
+          <div key={card.label} className="p-3 bg-gray-50 rounded-lg text-center">
+            <div className="text-xl font-bold text-gray-900">{card.value}</div>
+            <div className="text-xs text-gray-500">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <BarChart title="Services par catégorie" bars={charts.perCategory} onSelect={select} />
+        <BarChart title="Actifs / inactifs par catégorie" bars={charts.activity} onSelect={select} />
+        <BarChart title="Couverture e-services par institution" bars={charts.coverage} onSelect={select} showPercent />
+        <BarChart title="Longueur des descriptions" bars={charts.lengths} onSelect={select} />
+      </div>
+
+      {/* Exploration */}
+      {drillDown && (
+        <div className="border border-indigo-200 rounded-xl overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2 bg-indigo-50">
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-indigo-900 truncate">
+                {drillDown.title} — {drillServices.length} service(s)
+              </div>
+              <code className="text-xs text-indigo-700">{formatFilterExpression(drillDown.filter)}</code>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <button
+                onClick={() => onAddFilter(drillDown.filter)}
+                className="flex items-center px-2 py-1 text-xs text-indigo-700 bg-white border border-indigo-200 rounded hover:bg-indigo-100"
+              >
+                <Filter className="w-3 h-3 mr-1" />
+                Ajouter aux filtres
+              </button>
+              <button onClick={() => setDrillDown(null)} className="p-1 text-indigo-500 hover:text-indigo-700" title="Fermer">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <ResultsTable data={drillRows} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client"
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, Download, Info, SlidersHorizontal, XCircle } from 'lucide-react';
+import {
+  AUDIT_RULES, AUDIT_SEVERITIES, auditToCsv, auditToJson, defaultAuditConfig, loadAuditConfig, ruleConfig, runAudit,
+  saveAuditConfig, type AuditConfig, type AuditResult, type AuditSeverity,
+} from '@/lib/audit';
+import { downloadFile } from '@/lib/download';
+import type { RecordReport } from '@/lib/validation';
+import type { Service } from '@/lib/types';
+
+interface AuditPanelProps {
+  services: Service[];
+  // Corrections de la validation (statuts contradictoires des données source)
+  normalized: RecordReport[];
+}
+
+const SEVERITY_LABELS: Record<AuditSeverity, string> = {
+  error: 'Erreur',
+  warning: 'Avertissement',
+  info: 'Information',
+};
+
+const SEVERITY_STYLES: Record<AuditSeverity, string> = {
+  error: 'bg-red-50 text-red-700 border-red-200',
+  warning: 'bg-orange-50 text-orange-700 border-orange-200',
+  info: 'bg-blue-50 text-blue-700 border-blue-200',
+};
+
+const SEVERITY_ICONS: Record<AuditSeverity, React.ElementType> = {
+  error: XCircle,
+  warning: AlertTriangle,
+  info: Info,
+};
+
+const MAX_LISTED = 100;
+
+function RuleResult({ result }: { result: AuditResult }) {
+  const [expanded, setExpanded] = useState(false);
+  const Icon = SEVERITY_ICONS[result.severity];
+
+  return (
+    <div className={`border rounded-lg ${SEVERITY_STYLES[result.severity]}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        disabled={result.violations.length === 0}
+        className="w-full flex items-center justify-between p-3 text-sm"
+      >
+        <span className="flex items-center font-medium">
+          <Icon className="w-4 h-4 mr-2" />
+          {result.label}
+        </span>
+        <span className="flex items-center">
+          <span className="font-bold">{result.violations.length}</span>
+          {result.violations.length > 0 && (expanded ? <ChevronUp className="w-4 h-4 ml-2" /> : <ChevronDown className="w-4 h-4 ml-2" />)}
+        </span>
+      </button>
+      {expanded && (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 text-xs bg-white border-t border-gray-200 rounded-b-lg">
+          {result.violations.slice(0, MAX_LISTED).map((violation, i) => (
+            <li key={`${violation.serviceId}-${i}`} className="p-2 text-gray-700">
+              <span className="font-medium text-gray-900">{violation.serviceName}</span>
+              <span className="ml-2 font-mono text-gray-500">{violation.serviceId}</span>
+              <div className="text-gray-600">{violation.message}</div>
+            </li>
+          ))}
+          {result.violations.length > MAX_LISTED && (
+            <li className="p-2 text-gray-500 italic">… et {result.violations.length - MAX_LISTED} autre(s), voir l&apos;export</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Audit de qualité des services chargés
+export default function AuditPanel({ services, normalized }: AuditPanelProps) {
+  const [config, setConfig] = useState<AuditConfig>(defaultAuditConfig);
+  const [showRules, setShowRules] = useState(false);
+
+  useEffect(() => {
+    setConfig(loadAuditConfig());
+  }, []);
+
+  const report = useMemo(() => runAudit(services, config, { normalized }), [services, config, normalized]);
+
+  const updateConfig = (next: AuditConfig) => {
+    setConfig(next);
+    saveAuditConfig(next);
+  };
+
+  const exportReport = (format: 'json' | 'csv') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(auditToJson(report), `audit-${date}.json`, 'application/json');
+    } else {
+      downloadFile(auditToCsv(report), `audit-${date}.csv`, 'text/csv;charset=utf-8');
+    }
+  };
+
+  if (services.length === 0) {
+    return (
+      <div className="border-2 border-dashed border-gray-300 rounded-xl p-12 text-center text-gray-500">
+        Chargez des services pour lancer l&apos;audit
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {AUDIT_SEVERITIES.map(severity => {
+          const Icon = SEVERITY_ICONS[severity];
+          return (
+            <div key={severity} className={`flex items-center px-3 py-2 rounded-lg border text-sm ${SEVERITY_STYLES[severity]}`}>
+              <Icon className="w-4 h-4 mr-2" />
+              <span className="font-bold mr-1">{report.totals[severity]}</span>
+              {SEVERITY_LABELS[severity].toLowerCase()}(s)
+            </div>
+          );
+        })}
+        <span className="text-xs text-gray-500">{report.serviceCount} service(s) audité(s)</span>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => setShowRules(!showRules)}
+            className="flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+          >
+            <SlidersHorizontal className="w-3 h-3 mr-1" />
+            Règles
+          </button>
+          {(['json', 'csv'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => exportReport(format)}
+              className="flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+            >
+              <Download className="w-3 h-3 mr-1" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Configuration des règles */}
+      {showRules && (
+        <div className="p-3 bg-gray-50 rounded-lg space-y-2">
+          {AUDIT_RULES.map(rule => {
+            const current = ruleConfig(config, rule);
+            return (
+              <div key={rule.id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={current.enabled}
+                  onChange={(e) => updateConfig({ ...config, [rule.id]: { ...current, enabled: e.target.checked } })}
+                  className="text-indigo-600"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-gray-800">{rule.label}</div>
+                  <div className="text-xs text-gray-500">{rule.description}</div>
+                </div>
+                <select
+                  value={current.severity}
+                  onChange={(e) => updateConfig({ ...config, [rule.id]: { ...current, severity: e.target.value as AuditSeverity } })}
+                  disabled={!current.enabled}
+                  className="p-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {AUDIT_SEVERITIES.map(severity => <option key={severity} value={severity}>{SEVERITY_LABELS[severity]}</option>)}
+                </select>
+              </div>
+            );
+          })}
+          <button
+            onClick={() => updateConfig(defaultAuditConfig())}
+            className="text-xs text-indigo-600 hover:text-indigo-800"
+          >
+            Rétablir les règles par défaut
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {report.results.map(result => <RuleResult key={result.ruleId} result={result} />)}
+        {report.results.length === 0 && (
+          <p className="p-6 text-center text-sm text-gray-500">Aucune règle activée</p>
+        )}
+      </div>
+    </div>
+  );
+}
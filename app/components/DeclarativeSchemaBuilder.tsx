@@ -0,0 +1,319 @@
+"use client"
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Braces, Plus, Trash2 } from 'lucide-react';
+import {
+  CONDITION_TESTS, parseDeclarativeSchema, SCHEMA_OPS,
+  type ConditionTest, type DeclarativeSchema, type JsonValue, type SchemaExpr, type SchemaOp,
+} from '@/lib/declarativeSchema';
+
+interface DeclarativeSchemaBuilderProps {
+  schema: DeclarativeSchema;
+  onChange: (schema: DeclarativeSchema) => void;
+  availableKeys: string[];
+}
+
+const OP_LABELS: Record<SchemaOp, string> = {
+  path: 'Champ',
+  literal: 'Valeur fixe',
+  join: 'Joindre',
+  substring: 'Extrait',
+  count: 'Compter',
+  default: 'Par défaut',
+  exists: 'Présence',
+  if: 'Condition',
+};
+
+const TEST_LABELS: Record<ConditionTest, string> = {
+  truthy: 'est vrai / non vide',
+  falsy: 'est faux / vide',
+  equals: 'égal à',
+  notEquals: 'différent de',
+  contains: 'contient',
+  gt: 'supérieur à',
+  lt: 'inférieur à',
+};
+
+const inputClass = 'p-1 border border-gray-300 rounded text-xs focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500';
+
+// Saisie texte -> valeur JSON simple
+function parseLiteral(text: string): JsonValue {
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null') return null;
+  if (text.trim() !== '' && !isNaN(Number(text))) return Number(text);
+  return text;
+}
+
+const formatLiteral = (value: JsonValue | undefined) => (value === undefined ? '' : String(value));
+
+// Chemin source d'une expression, s'il est simple
+function sourcePath(expr: SchemaExpr): string | null {
+  if (typeof expr === 'string') return expr;
+  if (expr.op === 'path') return expr.path;
+  if ('of' in expr) return typeof expr.of === 'string' ? expr.of : null;
+  if (expr.op === 'if') return typeof expr.when.of === 'string' ? expr.when.of : null;
+  return null;
+}
+
+function defaultExpr(op: SchemaOp, path: string): SchemaExpr {
+  switch (op) {
+    case 'path': return path;
+    case 'literal': return { op: 'literal', value: '' };
+    case 'join': return { op: 'join', of: path, separator: ', ' };
+    case 'substring': return { op: 'substring', of: path, start: 0, length: 100 };
+    case 'count': return { op: 'count', of: path, unit: 'items' };
+    case 'default': return { op: 'default', of: path, value: '' };
+    case 'exists': return { op: 'exists', of: path };
+    case 'if': return { op: 'if', when: { test: 'truthy', of: path }, then: { op: 'literal', value: 'Oui' }, else: { op: 'literal', value: 'Non' } };
+  }
+}
+
+const exprOp = (expr: SchemaExpr): SchemaOp => (typeof expr === 'string' ? 'path' : expr.op);
+
+// Valeur d'une branche : valeur fixe ou champ
+function BranchInput({ expr, onChange, listId }: { expr: SchemaExpr | undefined; onChange: (expr: SchemaExpr) => void; listId: string }) {
+  const isField = typeof expr === 'string' || (expr && expr.op === 'path');
+  const text = expr === undefined ? ''
+    : typeof expr === 'string' ? expr
+    : expr.op === 'path' ? expr.path
+    : expr.op === 'literal' ? formatLiteral(expr.value)
+    : null;
+
+  if (text === null) {
+    return <span className="text-xs text-gray-500 italic">expression imbriquée (JSON)</span>;
+  }
+
+  return (
+    <span className="inline-flex gap-1">
+      <select
+        value={isField ? 'field' : 'value'}
+        onChange={(e) => onChange(e.target.value === 'field' ? (text || 'name') : { op: 'literal', value: text })}
+        className={inputClass}
+      >
+        <option value="value">valeur</option>
+        <option value="field">champ</option>
+      </select>
+      <input
+        value={text}
+        list={isField ? listId : undefined}
+        onChange={(e) => onChange(isField ? e.target.value : { op: 'literal', value: parseLiteral(e.target.value) })}
+        className={`${inputClass} w-24`}
+      />
+    </span>
+  );
+}
+
+// Éditeur visuel du schéma déclaratif
+export default function DeclarativeSchemaBuilder({ schema, onChange, availableKeys }: DeclarativeSchemaBuilderProps) {
+  const [jsonMode, setJsonMode] = useState(false);
+  const [jsonText, setJsonText] = useState('');
+  const [jsonError, setJsonError] = useState('');
+  const listId = 'declarative-schema-keys';
+
+  const updateField = (index: number, patch: Partial<DeclarativeSchema['fields'][number]>) => {
+    onChange({ ...schema, fields: schema.fields.map((f, i) => (i === index ? { ...f, ...patch } : f)) });
+  };
+
+  const moveField = (index: number, delta: number) => {
+    const fields = [...schema.fields];
+    const [field] = fields.splice(index, 1);
+    fields.splice(index + delta, 0, field);
+    onChange({ ...schema, fields });
+  };
+
+  const addField = () => {
+    let n = schema.fields.length + 1;
+    while (schema.fields.some(f => f.key === `champ${n}`)) n++;
+    onChange({ ...schema, fields: [...schema.fields, { key: `champ${n}`, value: availableKeys[0] ?? 'name' }] });
+  };
+
+  const openJson = () => {
+    setJsonText(JSON.stringify(schema, null, 2));
+    setJsonError('');
+    setJsonMode(true);
+  };
+
+  const applyJson = () => {
+    try {
+      onChange(parseDeclarativeSchema(jsonText));
+      setJsonMode(false);
+    } catch (err) {
+      setJsonError(err instanceof Error ? err.message : 'Schéma invalide');
+    }
+  };
+
+  const renderParams = (index: number, expr: SchemaExpr) => {
+    if (typeof expr === 'string') return null;
+    const set = (next: SchemaExpr) => updateField(index, { value: next });
+
+    switch (expr.op) {
+      case 'literal':
+        return (
+          <input
+            value={formatLiteral(expr.value)}
+            onChange={(e) => set({ ...expr, value: parseLiteral(e.target.value) })}
+            placeholder="valeur"
+            className={`${inputClass} w-32`}
+          />
+        );
+      case 'join':
+        return (
+          <label className="text-xs text-gray-600">
+            séparateur{' '}
+            <input value={expr.separator ?? ', '} onChange={(e) => set({ ...expr, separator: e.target.value })} className={`${inputClass} w-12`} />
+          </label>
+        );
+      case 'substring':
+        return (
+          <span className="inline-flex flex-wrap gap-1 text-xs text-gray-600">
+            début <input type="number" value={expr.start ?? 0} onChange={(e) => set({ ...expr, start: Number(e.target.value) })} className={`${inputClass} w-14`} />
+            longueur <input type="number" value={expr.length ?? ''} onChange={(e) => set({ ...expr, length: e.target.value === '' ? undefined : Number(e.target.value) })} className={`${inputClass} w-14`} />
+            suffixe <input value={expr.suffix ?? ''} onChange={(e) => set({ ...expr, suffix: e.target.value || undefined })} className={`${inputClass} w-12`} />
+          </span>
+        );
+      case 'count':
+        return (
+          <select value={expr.unit ?? 'items'} onChange={(e) => set({ ...expr, unit: e.target.value as 'items' | 'words' | 'chars' })} className={inputClass}>
+            <option value="items">éléments</option>
+            <option value="words">mots</option>
+            <option value="chars">caractères</option>
+          </select>
+        );
+      case 'default':
+        return (
+          <input
+            value={formatLiteral(expr.value)}
+            onChange={(e) => set({ ...expr, value: parseLiteral(e.target.value) })}
+            placeholder="si vide"
+            className={`${inputClass} w-32`}
+          />
+        );
+      case 'if':
+        return (
+          <span className="inline-flex flex-wrap items-center gap-1 text-xs text-gray-600">
+            <select
+              value={expr.when.test}
+              onChange={(e) => set({ ...expr, when: { ...expr.when, test: e.target.value as ConditionTest } })}
+              className={inputClass}
+            >
+              {CONDITION_TESTS.map(test => <option key={test} value={test}>{TEST_LABELS[test]}</option>)}
+            </select>
+            {!['truthy', 'falsy'].includes(expr.when.test) && (
+              <input
+                value={formatLiteral(expr.when.value)}
+                onChange={(e) => set({ ...expr, when: { ...expr.when, value: parseLiteral(e.target.value) } })}
+                className={`${inputClass} w-20`}
+              />
+            )}
+            alors <BranchInput expr={expr.then} onChange={(then) => set({ ...expr, then })} listId={listId} />
+            sinon <BranchInput expr={expr.else} onChange={(otherwise) => set({ ...expr, else: otherwise })} listId={listId} />
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
+  if (jsonMode) {
+    return (
+      <div>
+        <textarea
+          value={jsonText}
+          onChange={(e) => setJsonText(e.target.value)}
+          spellCheck={false}
+          className="w-full h-56 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono text-xs"
+        />
+        {jsonError && <p className="mt-1 text-xs text-red-600">{jsonError}</p>}
+        <div className="mt-2 flex gap-2">
+          <button onClick={applyJson} className="text-xs bg-indigo-600 text-white px-3 py-1 rounded hover:bg-indigo-700">
+            Appliquer
+          </button>
+          <button onClick={() => setJsonMode(false)} className="text-xs px-3 py-1 rounded border border-gray-300 hover:bg-gray-50">
+            Annuler
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <datalist id={listId}>
+        {availableKeys.map(key => <option key={key} value={key} />)}
+      </datalist>
+
+      <div className="space-y-2">
+        {schema.fields.map((field, index) => {
+          const op = exprOp(field.value);
+          const path = sourcePath(field.value);
+          return (
+            <div key={index} className="p-2 border border-gray-200 rounded-lg bg-gray-50 space-y-1">
+              <div className="flex items-center gap-1">
+                <input
+                  value={field.key}
+                  onChange={(e) => updateField(index, { key: e.target.value })}
+                  placeholder="nom du champ"
+                  className={`${inputClass} flex-1 font-mono`}
+                />
+                <select
+                  value={op}
+                  onChange={(e) => updateField(index, { value: defaultExpr(e.target.value as SchemaOp, path ?? 'name') })}
+                  className={inputClass}
+                >
+                  {SCHEMA_OPS.map(o => <option key={o} value={o}>{OP_LABELS[o]}</option>)}
+                </select>
+                <button onClick={() => moveField(index, -1)} disabled={index === 0} className="p-1 text-gray-500 disabled:opacity-30" title="Monter">
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button onClick={() => moveField(index, 1)} disabled={index === schema.fields.length - 1} className="p-1 text-gray-500 disabled:opacity-30" title="Descendre">
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onChange({ ...schema, fields: schema.fields.filter((_, i) => i !== index) })}
+                  className="p-1 text-red-500 hover:text-red-700"
+                  title="Supprimer"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1">
+                {op !== 'literal' && (
+                  path !== null ? (
+                    <input
+                      value={path}
+                      list={listId}
+                      onChange={(e) => {
+                        const value = field.value;
+                        const next: SchemaExpr = typeof value === 'string' ? e.target.value
+                          : value.op === 'path' ? { ...value, path: e.target.value }
+                          : value.op === 'if' ? { ...value, when: { ...value.when, of: e.target.value } }
+                          : { ...value, of: e.target.value } as SchemaExpr;
+                        updateField(index, { value: next });
+                      }}
+                      placeholder="chemin (ex. categories.0)"
+                      className={`${inputClass} w-32 font-mono`}
+                    />
+                  ) : (
+                    <span className="text-xs text-gray-500 italic">expression imbriquée (JSON)</span>
+                  )
+                )}
+                {renderParams(index, field.value)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-2 flex gap-2">
+        <button onClick={addField} className="flex items-center text-xs bg-indigo-100 text-indigo-700 px-2 py-1 rounded hover:bg-indigo-200">
+          <Plus className="w-3 h-3 mr-1" />
+          Ajouter un champ
+        </button>
+        <button onClick={openJson} className="flex items-center text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded hover:bg-gray-200">
+          <Braces className="w-3 h-3 mr-1" />
+          Éditer en JSON
+        </button>
+      </div>
+    </div>
+  );
+}
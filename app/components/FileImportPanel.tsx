@@ -0,0 +1,200 @@
+"use client"
+import React, { useRef, useState } from 'react';
+import { FileSpreadsheet, Loader2, Upload, X } from 'lucide-react';
+import {
+  applyMapping, DEFAULT_MAPPING_OPTIONS, detectImportFormat, guessMapping, MAPPABLE_FIELDS, mappingError, readTabularFile,
+  type ColumnMapping, type MappingOptions, type TabularData,
+} from '@/lib/importers';
+
+interface FileImportPanelProps {
+  // Enregistrements bruts issus du mapping (validés par la page)
+  onImport: (records: Record<string, unknown>[]) => void;
+  // Fichiers JSON : contenu transmis tel quel à la saisie manuelle
+  onJsonFile: (text: string) => void;
+}
+
+const PREVIEW_ROWS = 3;
+
+// Import de fichiers CSV / XLSX / NDJSON avec association des colonnes
+export default function FileImportPanel({ onImport, onJsonFile }: FileImportPanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [table, setTable] = useState<TabularData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [options, setOptions] = useState<MappingOptions>(DEFAULT_MAPPING_OPTIONS);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setFile(null);
+    setTable(null);
+    setMapping(null);
+    setError('');
+  };
+
+  const readFile = async (selected: File, sheet?: string) => {
+    setError('');
+    const format = detectImportFormat(selected.name);
+    if (!format) {
+      setError(`Format non pris en charge: ${selected.name} (CSV, XLSX, NDJSON ou JSON attendu)`);
+      return;
+    }
+    if (format === 'json') {
+      onJsonFile(await selected.text());
+      reset();
+      return;
+    }
+
+    setIsReading(true);
+    try {
+      const data = await readTabularFile(selected, sheet);
+      setFile(selected);
+      setTable(data);
+      setMapping(guessMapping(data.columns));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fichier illisible');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const mappingProblem = mapping ? mappingError(mapping) : null;
+  const preview = table && mapping ? applyMapping({ ...table, rows: table.rows.slice(0, PREVIEW_ROWS) }, mapping, options) : [];
+
+  return (
+    <div className="mb-3">
+      {!table ? (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            const dropped = e.dataTransfer.files[0];
+            if (dropped) readFile(dropped);
+          }}
+          onClick={() => inputRef.current?.click()}
+          className={`p-4 border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${
+            isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-gray-400'
+          }`}
+        >
+          {isReading
+            ? <Loader2 className="w-6 h-6 mx-auto text-indigo-600 animate-spin" />
+            : <Upload className="w-6 h-6 mx-auto text-gray-400" />}
+          <p className="mt-2 text-sm text-gray-600">Déposez un fichier ou cliquez pour parcourir</p>
+          <p className="text-xs text-gray-400">CSV, XLSX, NDJSON ou JSON</p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,.xlsx,.ndjson,.jsonl,.json"
+            className="hidden"
+            onChange={(e) => {
+              const selected = e.target.files?.[0];
+              if (selected) readFile(selected);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      ) : (
+        <div className="p-3 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center text-sm text-gray-700 min-w-0">
+              <FileSpreadsheet className="w-4 h-4 mr-2 text-green-600 flex-shrink-0" />
+              <span className="truncate">{table.sourceName}</span>
+              <span className="ml-2 text-xs text-gray-500 flex-shrink-0">{table.rows.length} ligne(s)</span>
+            </div>
+            <button onClick={reset} className="p-1 text-gray-500 hover:text-gray-700" title="Fermer">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {table.sheets && table.sheets.length > 1 && file && (
+            <label className="flex items-center text-xs text-gray-600">
+              Feuille
+              <select
+                value={table.sheet}
+                onChange={(e) => readFile(file, e.target.value)}
+                className="ml-2 p-1 border border-gray-300 rounded text-xs"
+              >
+                {table.sheets.map(sheet => <option key={sheet} value={sheet}>{sheet}</option>)}
+              </select>
+            </label>
+          )}
+
+          {/* Association des colonnes */}
+          {mapping && (
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-gray-500 uppercase">Colonnes</div>
+              {MAPPABLE_FIELDS.map(field => (
+                <label key={field} className="flex items-center justify-between text-xs">
+                  <span className="font-mono text-gray-700">{field}</span>
+                  <select
+                    value={mapping[field].column ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [field]: { column: e.target.value || null } })}
+                    className="w-40 p-1 border border-gray-300 rounded text-xs"
+                  >
+                    <option value="">— ignorer —</option>
+                    {table.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                  </select>
+                </label>
+              ))}
+              {mappingProblem && <p className="text-xs text-amber-700">{mappingProblem}</p>}
+            </div>
+          )}
+
+          <div className="space-y-1 text-xs text-gray-600">
+            <label className="flex items-center justify-between">
+              Séparateur des catégories
+              <input
+                value={options.categorySeparator}
+                onChange={(e) => setOptions({ ...options, categorySeparator: e.target.value })}
+                className="w-12 p-1 border border-gray-300 rounded font-mono"
+              />
+            </label>
+            <label className="flex items-center justify-between">
+              isActive
+              <select
+                value={options.isActiveSource}
+                onChange={(e) => setOptions({ ...options, isActiveSource: e.target.value as MappingOptions['isActiveSource'] })}
+                className="w-40 p-1 border border-gray-300 rounded"
+              >
+                <option value="status">déduit du statut</option>
+                <option value="column">lu dans sa colonne</option>
+              </select>
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={options.generateIds}
+                onChange={(e) => setOptions({ ...options, generateIds: e.target.checked })}
+                className="text-indigo-600 mr-2"
+              />
+              Générer les identifiants manquants
+            </label>
+          </div>
+
+          {/* Aperçu */}
+          {preview.length > 0 && (
+            <pre className="p-2 bg-gray-50 rounded text-xs font-mono overflow-auto max-h-32">
+              {JSON.stringify(preview, null, 2)}
+            </pre>
+          )}
+
+          <button
+            onClick={() => mapping && onImport(applyMapping(table, mapping, options))}
+            disabled={!mapping || !!mappingProblem || table.rows.length === 0}
+            className="w-full bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-700 disabled:opacity-50 text-sm"
+          >
+            Importer {table.rows.length} ligne(s)
+          </button>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client"
+import React, { useState } from 'react';
+import { FolderPlus, Plus, Trash2, Type } from 'lucide-react';
+import {
+  emptyFilter, FILTER_MEASURES, FILTER_OPERATORS, formatFilterExpression, isEmptyFilter, isExactOperator, parseFilterExpression,
+  type FilterCondition, type FilterGroup, type FilterMeasure, type FilterNode, type FilterOperator,
+} from '@/lib/filterExpression';
+
+interface FilterExpressionBuilderProps {
+  expression: FilterGroup;
+  onChange: (expression: FilterGroup) => void;
+  availableFields: string[];
+  // Suggestions de valeurs (catégories)
+  categories: string[];
+}
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: 'égal à',
+  notEquals: 'différent de',
+  contains: 'contient',
+  exists: 'est renseigné',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+};
+
+const MEASURE_LABELS: Record<FilterMeasure, string> = {
+  value: 'valeur',
+  length: 'longueur',
+  words: 'nb de mots',
+};
+
+const inputClass = 'p-1 border border-gray-300 rounded text-xs focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500';
+
+const newCondition = (field: string): FilterCondition => ({ type: 'condition', field, op: 'contains', value: '' });
+
+function ConditionRow({ condition, onChange, onRemove, availableFields, categoriesListId }: {
+  condition: FilterCondition;
+  onChange: (node: FilterNode) => void;
+  onRemove: () => void;
+  availableFields: string[];
+  categoriesListId: string;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <button
+        onClick={() => onChange({ ...condition, negate: !condition.negate })}
+        className={`px-1.5 py-0.5 rounded text-xs font-medium ${condition.negate ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-400 hover:text-gray-600'}`}
+        title="Inverser la condition"
+      >
+        NON
+      </button>
+      <select
+        value={condition.measure ?? 'value'}
+        onChange={(e) => {
+          const measure = e.target.value as FilterMeasure;
+          onChange({ ...condition, measure: measure === 'value' ? undefined : measure });
+        }}
+        className={inputClass}
+      >
+        {FILTER_MEASURES.map(measure => <option key={measure} value={measure}>{MEASURE_LABELS[measure]}</option>)}
+      </select>
+      <select
+        value={condition.field}
+        onChange={(e) => onChange({ ...condition, field: e.target.value })}
+        className={`${inputClass} font-mono`}
+      >
+        {[...new Set([...availableFields, condition.field])].map(field => <option key={field} value={field}>{field}</option>)}
+      </select>
+      <select
+        value={condition.op}
+        onChange={(e) => {
+          const op = e.target.value as FilterOperator;
+          onChange(op === 'exists' ? { ...condition, op, value: undefined } : { ...condition, op, value: condition.value ?? '' });
+        }}
+        className={inputClass}
+      >
+        {FILTER_OPERATORS.map(op => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+      </select>
+      {isExactOperator(condition.op) && (
+        <button
+          onClick={() => onChange({ ...condition, exact: condition.exact ? undefined : true })}
+          className={`px-1.5 py-0.5 rounded text-xs font-medium ${condition.exact ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-400 hover:text-gray-600'}`}
+          title="Comparaison exacte (casse et accents compris)"
+        >
+          Aa
+        </button>
+      )}
+      {condition.op !== 'exists' && (
+        <input
+          value={condition.value ?? ''}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          list={condition.field === 'categories' && (condition.measure ?? 'value') === 'value' ? categoriesListId : undefined}
+          placeholder="valeur"
+          className={`${inputClass} flex-1 min-w-[6rem]`}
+        />
+      )}
+      <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-600" title="Supprimer">
+        <Trash2 className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
+
+function GroupEditor({ group, onChange, onRemove, availableFields, categoriesListId, depth }: {
+  group: FilterGroup;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+  availableFields: string[];
+  categoriesListId: string;
+  depth: number;
+}) {
+  const updateChild = (index: number, child: FilterNode) => {
+    onChange({ ...group, children: group.children.map((c, i) => (i === index ? child : c)) });
+  };
+  const removeChild = (index: number) => {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={`space-y-2 ${depth > 0 ? 'p-2 border-l-2 border-indigo-200 bg-indigo-50/40 rounded-r' : ''}`}>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onChange({ ...group, negate: !group.negate })}
+          className={`px-1.5 py-0.5 rounded text-xs font-medium ${group.negate ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-400 hover:text-gray-600'}`}
+          title="Inverser le groupe"
+        >
+          NON
+        </button>
+        <div className="flex bg-gray-100 rounded p-0.5">
+          {(['and', 'or'] as const).map(combinator => (
+            <button
+              key={combinator}
+              onClick={() => onChange({ ...group, combinator })}
+              className={`px-2 py-0.5 text-xs font-medium rounded ${
+                group.combinator === combinator ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-500'
+              }`}
+            >
+              {combinator === 'and' ? 'ET' : 'OU'}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500">
+          {group.combinator === 'and' ? 'toutes les conditions' : 'au moins une condition'}
+        </span>
+        {onRemove && (
+          <button onClick={onRemove} className="ml-auto p-1 text-gray-400 hover:text-red-600" title="Supprimer le groupe">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {group.children.map((child, i) => (
+        child.type === 'condition' ? (
+          <ConditionRow
+            key={i}
+            condition={child}
+            onChange={(node) => updateChild(i, node)}
+            onRemove={() => removeChild(i)}
+            availableFields={availableFields}
+            categoriesListId={categoriesListId}
+          />
+        ) : (
+          <GroupEditor
+            key={i}
+            group={child}
+            onChange={(node) => updateChild(i, node)}
+            onRemove={() => removeChild(i)}
+            availableFields={availableFields}
+            categoriesListId={categoriesListId}
+            depth={depth + 1}
+          />
+        )
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange({ ...group, children: [...group.children, newCondition(availableFields[0] ?? 'name')] })}
+          className="flex items-center text-xs text-indigo-600 hover:text-indigo-800"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Condition
+        </button>
+        <button
+          onClick={() => onChange({
+            ...group,
+            children: [...group.children, { type: 'group', combinator: group.combinator === 'and' ? 'or' : 'and', children: [newCondition(availableFields[0] ?? 'name')] }],
+          })}
+          className="flex items-center text-xs text-indigo-600 hover:text-indigo-800"
+        >
+          <FolderPlus className="w-3 h-3 mr-1" />
+          Groupe
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Constructeur d'expressions de filtre : éditeur visuel ou syntaxe texte
+export default function FilterExpressionBuilder({ expression, onChange, availableFields, categories }: FilterExpressionBuilderProps) {
+  const [mode, setMode] = useState<'visual' | 'text'>('visual');
+  const [text, setText] = useState('');
+  const [textError, setTextError] = useState('');
+  const categoriesListId = 'filter-expression-categories';
+
+  const switchMode = (next: 'visual' | 'text') => {
+    if (next === 'text') {
+      setText(formatFilterExpression(expression));
+      setTextError('');
+    }
+    setMode(next);
+  };
+
+  const applyText = () => {
+    try {
+      onChange(parseFilterExpression(text));
+      setTextError('');
+    } catch (err) {
+      setTextError(err instanceof Error ? err.message : 'Expression invalide');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-gray-700">Expression avancée</label>
+        <div className="flex items-center gap-2">
+          {!isEmptyFilter(expression) && (
+            <button
+              onClick={() => {
+                onChange(emptyFilter());
+                setText('');
+              }}
+              className="text-xs text-red-600 hover:text-red-700"
+            >
+              Effacer
+            </button>
+          )}
+          <button
+            onClick={() => switchMode(mode === 'visual' ? 'text' : 'visual')}
+            className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+          >
+            <Type className="w-3 h-3 mr-1" />
+            {mode === 'visual' ? 'Texte' : 'Visuel'}
+          </button>
+        </div>
+      </div>
+
+      {mode === 'visual' ? (
+        <GroupEditor
+          group={expression}
+          onChange={onChange}
+          availableFields={availableFields}
+          categoriesListId={categoriesListId}
+          depth={0}
+        />
+      ) : (
+        <div>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'cat = "État civil" AND NOT cat = Justice\n(has:url OR institution = ANTS) AND words(description) < 20'}
+            className="w-full h-20 p-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <div className="flex items-center justify-between mt-1">
+            <span className="text-xs text-gray-400">AND / OR / NOT, ( ), = != ~ &gt; &lt;, == !== (exact), has:champ, words(champ)</span>
+            <button onClick={applyText} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium">
+              Appliquer
+            </button>
+          </div>
+          {textError && <p className="mt-1 text-xs text-red-600">{textError}</p>}
+        </div>
+      )}
+
+      <datalist id={categoriesListId}>
+        {categories.map(category => <option key={category} value={category} />)}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client"
+import React, { useRef, useState } from 'react';
+import { Building2, Trash2, Upload } from 'lucide-react';
+import { detectImportFormat, readTabularFile } from '@/lib/importers';
+import { institutionsFromTable, parseInstitutions } from '@/lib/institutions';
+import type { Institution } from '@/lib/types';
+
+interface InstitutionsPanelProps {
+  // Institutions du portail ou jointes aux données
+  sourceCount: number;
+  // Correspondance importée localement (prioritaire)
+  localInstitutions: Institution[];
+  onLocalChange: (institutions: Institution[]) => void;
+  // Services dont l'institution est résolue / total
+  resolvedCount: number;
+  serviceCount: number;
+}
+
+// Métadonnées des institutions : état et import d'un fichier de correspondance
+export default function InstitutionsPanel({
+  sourceCount, localInstitutions, onLocalChange, resolvedCount, serviceCount,
+}: InstitutionsPanelProps) {
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const importFile = async (file: File) => {
+    setError('');
+    try {
+      const institutions = detectImportFormat(file.name) === 'json'
+        ? parseInstitutions(JSON.parse(await file.text()))
+        : institutionsFromTable(await readTabularFile(file));
+      onLocalChange(institutions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fichier d\'institutions illisible');
+    }
+  };
+
+  return (
+    <div className="mb-6 p-3 bg-gray-50 rounded-lg text-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-gray-700">
+          <Building2 className="w-4 h-4 mr-2 text-gray-500" />
+          Institutions
+        </div>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center text-xs text-indigo-600 hover:text-indigo-800"
+          title="Fichier JSON, CSV ou XLSX avec les colonnes id et name"
+        >
+          <Upload className="w-3 h-3 mr-1" />
+          Importer une correspondance
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.csv,.tsv,.txt,.xlsx"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="mt-1 text-xs text-gray-500 space-y-0.5">
+        <div>
+          {sourceCount > 0 ? `${sourceCount} institution(s) du portail` : 'Aucune institution fournie par le portail'}
+          {localInstitutions.length > 0 && ` · ${localInstitutions.length} importée(s) localement`}
+        </div>
+        {serviceCount > 0 && (
+          <div>{resolvedCount} service(s) sur {serviceCount} rattaché(s) à une institution nommée</div>
+        )}
+      </div>
+
+      {localInstitutions.length > 0 && (
+        <button
+          onClick={() => onLocalChange([])}
+          className="mt-1 flex items-center text-xs text-red-600 hover:text-red-700"
+        >
+          <Trash2 className="w-3 h-3 mr-1" />
+          Oublier la correspondance importée
+        </button>
+      )}
+
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
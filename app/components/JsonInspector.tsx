@@ -0,0 +1,92 @@
+"use client"
+import React, { useMemo, useState } from 'react';
+import { SearchCode, X } from 'lucide-react';
+import JsonTree from './JsonTree';
+import { queryJsonPath, type JsonPathMatch } from '@/lib/jsonPath';
+
+interface JsonInspectorProps {
+  data: unknown;
+}
+
+// Correspondances affichées au plus (la requête peut renvoyer tout le document)
+const MAX_MATCHES = 200;
+
+const QUERY_EXAMPLES = ['$[*].name', '$[?(@.isActive == true)]', '$..categories[0]', '$[0:10]'];
+
+// Arbre du résultat, filtré par une requête JSONPath
+export default function JsonInspector({ data }: JsonInspectorProps) {
+  const [query, setQuery] = useState('');
+
+  const outcome = useMemo((): { matches: JsonPathMatch[] | null; error: string } => {
+    if (!query.trim()) return { matches: null, error: '' };
+    try {
+      return { matches: queryJsonPath(data, query.trim()), error: '' };
+    } catch (err) {
+      return { matches: null, error: err instanceof Error ? err.message : 'Requête invalide' };
+    }
+  }, [data, query]);
+
+  return (
+    <div>
+      <div className="p-3 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center">
+          <SearchCode className="w-4 h-4 text-gray-400 mr-2 flex-shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Requête JSONPath, ex. $[?(@.isActive == true)].name"
+            spellCheck={false}
+            className={`flex-1 p-1.5 border rounded text-xs font-mono focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 ${
+              outcome.error ? 'border-red-300' : 'border-gray-300'
+            }`}
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className="ml-1 p-1 text-gray-400 hover:text-gray-700" title="Effacer la requête">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-gray-500">
+          {outcome.error ? (
+            <span className="text-red-600">{outcome.error}</span>
+          ) : outcome.matches ? (
+            <span>{outcome.matches.length} correspondance(s)</span>
+          ) : (
+            <>
+              <span>Exemples :</span>
+              {QUERY_EXAMPLES.map(example => (
+                <button
+                  key={example}
+                  onClick={() => setQuery(example)}
+                  className="px-1 font-mono bg-white border border-gray-200 rounded hover:border-indigo-300"
+                >
+                  {example}
+                </button>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="p-3 overflow-auto max-h-96">
+        {outcome.matches ? (
+          <div className="space-y-2">
+            {outcome.matches.slice(0, MAX_MATCHES).map(match => (
+              <div key={match.path}>
+                <div className="text-xs font-mono text-indigo-700">{match.path}</div>
+                <JsonTree data={match.value} rootPath={match.path} />
+              </div>
+            ))}
+            {outcome.matches.length > MAX_MATCHES && (
+              <p className="text-xs text-gray-500">
+                {MAX_MATCHES} premières correspondances affichées sur {outcome.matches.length}
+              </p>
+            )}
+          </div>
+        ) : (
+          <JsonTree data={data} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client"
+import React, { useState } from 'react';
+import { Check, ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { formatJsonPath } from '@/lib/jsonPath';
+
+interface JsonTreeProps {
+  data: unknown;
+  // Niveaux dépliés à l'affichage (1 : racine seule)
+  expandDepth?: number;
+  // Chemin JSONPath de data dans le document complet (résultats de requête)
+  rootPath?: string;
+}
+
+// Enfants affichés par lot pour les grands tableaux
+const CHILD_BATCH = 100;
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  value !== null && typeof value === 'object';
+
+function entriesOf(value: Record<string, unknown> | unknown[]): [string | number, unknown][] {
+  return Array.isArray(value) ? value.map((item, index) => [index, item]) : Object.entries(value);
+}
+
+function ScalarValue({ value }: { value: unknown }) {
+  if (typeof value === 'string') return <span className="text-green-700 break-all">&quot;{value}&quot;</span>;
+  if (typeof value === 'number') return <span className="text-blue-700">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-orange-600">{String(value)}</span>;
+  return <span className="text-gray-400">{value === undefined ? 'undefined' : 'null'}</span>;
+}
+
+function CopyButton({ value }: { value: unknown }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      onClick={async (e) => {
+        e.stopPropagation();
+        try {
+          await navigator.clipboard.writeText(typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1500);
+        } catch (err) {
+          console.error('Erreur lors de la copie:', err);
+        }
+      }}
+      className="ml-2 p-0.5 text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100"
+      title="Copier la valeur"
+    >
+      {copied ? <Check className="w-3 h-3 text-green-600" /> : <Copy className="w-3 h-3" />}
+    </button>
+  );
+}
+
+function JsonNode({ name, value, path, depth, expandDepth, rootPath }: {
+  name?: string | number;
+  value: unknown;
+  path: (string | number)[];
+  depth: number;
+  expandDepth: number;
+  rootPath: string;
+}) {
+  const [expanded, setExpanded] = useState(depth < expandDepth);
+  const [visible, setVisible] = useState(CHILD_BATCH);
+  const container = isContainer(value);
+  const entries = container && expanded ? entriesOf(value) : [];
+  const size = container ? (Array.isArray(value) ? value.length : Object.keys(value).length) : 0;
+
+  return (
+    <div>
+      <div
+        className={`group flex items-start py-0.5 rounded hover:bg-gray-100 ${container ? 'cursor-pointer' : ''}`}
+        style={{ paddingLeft: depth * 16 }}
+        onClick={() => container && setExpanded(!expanded)}
+        title={rootPath + formatJsonPath(path).slice(1)}
+      >
+        <span className="w-4 flex-shrink-0 text-gray-400">
+          {container && (expanded ? <ChevronDown className="w-3 h-3 mt-0.5" /> : <ChevronRight className="w-3 h-3 mt-0.5" />)}
+        </span>
+        {name !== undefined && (
+          <span className={`mr-1 ${typeof name === 'number' ? 'text-gray-400' : 'text-purple-700'}`}>{name}:</span>
+        )}
+        {container ? (
+          <span className="text-gray-500">
+            {Array.isArray(value) ? `[${size}]` : `{${size}}`}
+          </span>
+        ) : (
+          <ScalarValue value={value} />
+        )}
+        <CopyButton value={value} />
+      </div>
+      {entries.slice(0, visible).map(([key, child]) => (
+        <JsonNode key={key} name={key} value={child} path={[...path, key]} depth={depth + 1} expandDepth={expandDepth} rootPath={rootPath} />
+      ))}
+      {entries.length > visible && (
+        <button
+          onClick={() => setVisible(visible + CHILD_BATCH)}
+          className="py-0.5 text-indigo-600 hover:text-indigo-800"
+          style={{ paddingLeft: (depth + 1) * 16 + 16 }}
+        >
+          Afficher {Math.min(CHILD_BATCH, entries.length - visible)} de plus ({entries.length - visible} restant(s))
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Arbre JSON repliable, avec copie de chaque nœud
+export default function JsonTree({ data, expandDepth = 1, rootPath = '$' }: JsonTreeProps) {
+  return (
+    <div className="text-xs font-mono">
+      <JsonNode value={data} path={[]} depth={0} expandDepth={expandDepth} rootPath={rootPath} />
+    </div>
+  );
+}
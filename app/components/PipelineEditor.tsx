@@ -0,0 +1,366 @@
+"use client"
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Eye, EyeOff, Loader2, Plus, RefreshCw, Trash2, Upload } from 'lucide-react';
+import DeclarativeSchemaBuilder from './DeclarativeSchemaBuilder';
+import FilterExpressionBuilder from './FilterExpressionBuilder';
+import ScriptEditor from './ScriptEditor';
+import { downloadFile } from '@/lib/download';
+import {
+  createStep, hasScriptSteps, parsePipeline, PIPELINE_STEP_TYPES, runPipelineSteps,
+  type Pipeline, type PipelineStep, type PipelineStepType, type StepResult,
+} from '@/lib/pipeline';
+import type { ScriptRunner } from '@/lib/transformCore';
+import type { Service } from '@/lib/types';
+
+interface PipelineEditorProps {
+  pipeline: Pipeline;
+  onChange: (pipeline: Pipeline) => void;
+  // Services filtrés en entrée du pipeline
+  services: Service[];
+  availableKeys: string[];
+  categories: string[];
+  runScript: ScriptRunner;
+}
+
+const STEP_LABELS: Record<PipelineStepType, string> = {
+  filter: 'Filtrer',
+  selectKeys: 'Sélectionner des clés',
+  restructure: 'Restructurer',
+  group: 'Grouper',
+  sort: 'Trier',
+  dedupe: 'Dédoublonner',
+  limit: 'Limiter',
+  script: 'Script',
+};
+
+const PREVIEW_ROWS = 3;
+const PREVIEW_DELAY_MS = 300;
+
+const inputClass = 'p-1.5 border border-gray-300 rounded text-xs focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500';
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Liste séparée par des virgules : le texte saisi reste tel quel, seule la liste analysée remonte
+function ListInput({ values, onChange, placeholder }: {
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+}) {
+  const [text, setText] = useState(values.join(', '));
+  const [synced, setSynced] = useState(values.join(','));
+
+  // Liste remplacée ailleurs (import, préréglage) : réafficher sa forme normalisée
+  if (values.join(',') !== synced) {
+    setSynced(values.join(','));
+    if (splitList(text).join(',') !== values.join(',')) setText(values.join(', '));
+  }
+
+  return (
+    <input
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(splitList(e.target.value));
+      }}
+      placeholder={placeholder}
+      className={`${inputClass} w-full font-mono`}
+    />
+  );
+}
+
+function StepFields({ step, onChange, availableKeys, categories }: {
+  step: PipelineStep;
+  onChange: (step: PipelineStep) => void;
+  availableKeys: string[];
+  categories: string[];
+}) {
+  switch (step.type) {
+    case 'filter':
+      return (
+        <FilterExpressionBuilder
+          expression={step.expression}
+          onChange={(expression) => onChange({ ...step, expression })}
+          availableFields={availableKeys}
+          categories={categories}
+        />
+      );
+    case 'selectKeys':
+      return (
+        <ListInput
+          values={step.keys}
+          onChange={(keys) => onChange({ ...step, keys })}
+          placeholder="name, id, status"
+        />
+      );
+    case 'restructure':
+      return (
+        <DeclarativeSchemaBuilder
+          schema={step.schema}
+          onChange={(schema) => onChange({ ...step, schema })}
+          availableKeys={availableKeys}
+        />
+      );
+    case 'group':
+      return (
+        <input
+          value={step.field}
+          onChange={(e) => onChange({ ...step, field: e.target.value })}
+          placeholder="categories"
+          className={`${inputClass} w-full font-mono`}
+        />
+      );
+    case 'sort':
+      return (
+        <div className="flex gap-2">
+          <input
+            value={step.field}
+            onChange={(e) => onChange({ ...step, field: e.target.value })}
+            placeholder="name"
+            className={`${inputClass} flex-1 font-mono`}
+          />
+          <select
+            value={step.direction}
+            onChange={(e) => onChange({ ...step, direction: e.target.value === 'desc' ? 'desc' : 'asc' })}
+            className={inputClass}
+          >
+            <option value="asc">Croissant</option>
+            <option value="desc">Décroissant</option>
+          </select>
+        </div>
+      );
+    case 'dedupe':
+      return (
+        <ListInput
+          values={step.fields}
+          onChange={(fields) => onChange({ ...step, fields })}
+          placeholder="Champs comparés (vide : ligne entière)"
+        />
+      );
+    case 'limit':
+      return (
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <label>Lignes</label>
+          <input
+            type="number"
+            min={0}
+            value={step.count}
+            onChange={(e) => onChange({ ...step, count: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            className={`${inputClass} w-20`}
+          />
+          <label>à partir de</label>
+          <input
+            type="number"
+            min={0}
+            value={step.offset}
+            onChange={(e) => onChange({ ...step, offset: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            className={`${inputClass} w-20`}
+          />
+        </div>
+      );
+    case 'script':
+      return (
+        <ScriptEditor
+          value={step.code}
+          onChange={(code) => onChange({ ...step, code })}
+          placeholder="return services.filter(s => s.isActive);"
+        />
+      );
+  }
+}
+
+// Éditeur de pipeline : étapes ordonnées avec aperçu de la sortie intermédiaire
+export default function PipelineEditor({ pipeline, onChange, services, availableKeys, categories, runScript }: PipelineEditorProps) {
+  const [newStepType, setNewStepType] = useState<PipelineStepType>('filter');
+  const [results, setResults] = useState<StepResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [openPreviews, setOpenPreviews] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const runIdRef = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const withScripts = hasScriptSteps(pipeline);
+
+  // Aperçu avec scripts, lancé à la demande (worker isolé)
+  const runPreview = async () => {
+    const runId = ++runIdRef.current;
+    setIsRunning(true);
+    const stepResults = await runPipelineSteps(services, pipeline, runScript);
+    // Ignorer les aperçus dépassés par une modification plus récente
+    if (runId === runIdRef.current) {
+      setResults(stepResults);
+      setIsRunning(false);
+    }
+  };
+
+  // Aperçu automatique, sauf si des scripts doivent être exécutés
+  useEffect(() => {
+    runIdRef.current++;
+    setIsRunning(false);
+    if (withScripts) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const stepResults = await runPipelineSteps(services, pipeline);
+      if (!cancelled) setResults(stepResults);
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pipeline, services, withScripts]);
+
+  const updateStep = (index: number, step: PipelineStep) => {
+    onChange({ ...pipeline, steps: pipeline.steps.map((s, i) => (i === index ? step : s)) });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...pipeline.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    onChange({ ...pipeline, steps });
+  };
+
+  const togglePreview = (id: string) => {
+    setOpenPreviews(openPreviews.includes(id) ? openPreviews.filter(p => p !== id) : [...openPreviews, id]);
+  };
+
+  const importPipeline = async (file: File) => {
+    try {
+      onChange(parsePipeline(await file.text()));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fichier de pipeline illisible');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">Entrée : {services.length} service(s) filtré(s)</span>
+        <div className="flex items-center gap-2">
+          {withScripts && (
+            <button
+              onClick={runPreview}
+              disabled={isRunning}
+              className="flex items-center text-xs text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+            >
+              {isRunning ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RefreshCw className="w-3 h-3 mr-1" />}
+              Aperçu
+            </button>
+          )}
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="flex items-center text-xs text-gray-600 hover:text-gray-900"
+            title="Importer un pipeline (JSON)"
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            Importer
+          </button>
+          <button
+            onClick={() => downloadFile(JSON.stringify(pipeline, null, 2), 'pipeline.json', 'application/json')}
+            disabled={pipeline.steps.length === 0}
+            className="flex items-center text-xs text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            title="Exporter le pipeline (JSON)"
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Exporter
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importPipeline(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {pipeline.steps.map((step, index) => {
+        const result = results.find(r => r.stepId === step.id);
+        const previewOpen = openPreviews.includes(step.id);
+        return (
+          <div key={step.id} className={`border rounded-lg ${step.enabled ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-60'}`}>
+            <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 rounded-t-lg">
+              <input
+                type="checkbox"
+                checked={step.enabled}
+                onChange={(e) => updateStep(index, { ...step, enabled: e.target.checked })}
+                className="text-indigo-600"
+                title="Activer l'étape"
+              />
+              <span className="text-xs font-mono text-gray-400">{index + 1}</span>
+              <span className="text-sm font-medium text-gray-800">{STEP_LABELS[step.type]}</span>
+              {result && !result.error && (
+                <span className="px-1.5 py-0.5 text-xs rounded bg-indigo-50 text-indigo-700">
+                  {result.output.length} ligne(s){result.skipped && ' · ignorée'}
+                </span>
+              )}
+              {result?.error && <span className="px-1.5 py-0.5 text-xs rounded bg-red-50 text-red-700">Erreur</span>}
+              <div className="ml-auto flex items-center gap-1">
+                <button
+                  onClick={() => togglePreview(step.id)}
+                  disabled={!result}
+                  className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title="Aperçu de la sortie"
+                >
+                  {previewOpen ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                </button>
+                <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Monter">
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button onClick={() => moveStep(index, 1)} disabled={index === pipeline.steps.length - 1} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30" title="Descendre">
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => onChange({ ...pipeline, steps: pipeline.steps.filter(s => s.id !== step.id) })}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Supprimer l'étape"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+            <div className="p-3">
+              <StepFields
+                step={step}
+                onChange={(next) => updateStep(index, next)}
+                availableKeys={availableKeys}
+                categories={categories}
+              />
+              {result?.error && <p className="mt-2 text-xs text-red-600">{result.error}</p>}
+              {previewOpen && result && !result.error && (
+                <pre className="mt-2 p-2 bg-gray-50 rounded text-xs font-mono overflow-auto max-h-48">
+                  {JSON.stringify(result.output.slice(0, PREVIEW_ROWS), null, 2)}
+                  {result.output.length > PREVIEW_ROWS && `\n… ${result.output.length - PREVIEW_ROWS} autre(s)`}
+                </pre>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <select
+          value={newStepType}
+          onChange={(e) => setNewStepType(e.target.value as PipelineStepType)}
+          className={`${inputClass} flex-1`}
+        >
+          {PIPELINE_STEP_TYPES.map(type => <option key={type} value={type}>{STEP_LABELS[type]}</option>)}
+        </select>
+        <button
+          onClick={() => onChange({ ...pipeline, steps: [...pipeline.steps, createStep(newStepType)] })}
+          className="flex items-center px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded hover:bg-indigo-700"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Ajouter une étape
+        </button>
+      </div>
+    </div>
+  );
+}
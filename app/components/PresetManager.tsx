@@ -0,0 +1,214 @@
+"use client"
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, Check, ChevronDown, ChevronUp, Copy, Download, Pencil, Play, Save, Trash2, Upload, X } from 'lucide-react';
+import { downloadFile } from '@/lib/download';
+import {
+  createPreset, deletePreset, duplicatePreset, exportPresetLibrary, loadPresets, mergePresets,
+  parsePresetLibrary, renamePreset, savePresets, type TransformPreset, type TransformSettings,
+} from '@/lib/presets';
+
+interface PresetManagerProps {
+  // Réglages courants, enregistrés lors de la sauvegarde
+  getSettings: () => TransformSettings;
+  onApply: (settings: TransformSettings) => void;
+  examples: Record<string, { title: string; description: string }>;
+  onLoadExample: (key: string) => void;
+}
+
+// Gestion des préréglages de transformation (stockage local + import/export)
+export default function PresetManager({ getSettings, onApply, examples, onLoadExample }: PresetManagerProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [presets, setPresets] = useState<TransformPreset[]>([]);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setPresets(loadPresets());
+  }, []);
+
+  const update = (next: TransformPreset[]) => {
+    setPresets(next);
+    try {
+      savePresets(next);
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Impossible d\'enregistrer les préréglages' });
+    }
+  };
+
+  const saveCurrent = () => {
+    if (!newName.trim()) return;
+    update([...presets, createPreset(newName, getSettings())]);
+    setNewName('');
+    setMessage({ type: 'info', text: 'Préréglage enregistré' });
+  };
+
+  const confirmRename = () => {
+    if (editingId && editingName.trim()) {
+      update(renamePreset(presets, editingId, editingName));
+    }
+    setEditingId(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parsePresetLibrary(await file.text());
+      update(mergePresets(presets, imported));
+      setMessage({ type: 'info', text: `${imported.length} préréglage(s) importé(s)` });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Fichier invalide' });
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+      >
+        <div className="flex items-center">
+          <Bookmark className="w-4 h-4 mr-2" />
+          <span className="font-medium">Préréglages</span>
+          {presets.length > 0 && <span className="ml-2 text-xs text-gray-500">({presets.length})</span>}
+        </div>
+        {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-4 space-y-4 p-4 border border-gray-200 rounded-lg">
+          {/* Enregistrer la configuration courante */}
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveCurrent()}
+              placeholder="Nom du préréglage"
+              className="flex-1 p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <button
+              onClick={saveCurrent}
+              disabled={!newName.trim()}
+              className="flex items-center px-3 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-1" />
+              Enregistrer
+            </button>
+          </div>
+
+          {/* Préréglages de l'utilisateur */}
+          {presets.length > 0 ? (
+            <ul className="space-y-1">
+              {presets.map(preset => (
+                <li key={preset.id} className="flex items-center gap-1 p-2 rounded hover:bg-gray-50">
+                  {editingId === preset.id ? (
+                    <>
+                      <input
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && confirmRename()}
+                        autoFocus
+                        className="flex-1 p-1 text-sm border border-gray-300 rounded"
+                      />
+                      <button onClick={confirmRename} className="p-1 text-green-600" title="Valider">
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="p-1 text-gray-500" title="Annuler">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">{preset.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {preset.transformMode === 'keys' ? 'Clés' : preset.transformMode === 'pipeline' ? `Pipeline (${preset.pipeline.steps.length} étape(s))` : preset.customEditor === 'visual' ? 'Schéma visuel' : 'Code'}
+                          {' · '}
+                          {new Date(preset.updatedAt).toLocaleDateString('fr-FR')}
+                        </div>
+                      </div>
+                      <button onClick={() => onApply(preset)} className="p-1 text-indigo-600 hover:text-indigo-800" title="Appliquer">
+                        <Play className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditingId(preset.id);
+                          setEditingName(preset.name);
+                        }}
+                        className="p-1 text-gray-500 hover:text-gray-700"
+                        title="Renommer"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => update(duplicatePreset(presets, preset.id))} className="p-1 text-gray-500 hover:text-gray-700" title="Dupliquer">
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => update(deletePreset(presets, preset.id))} className="p-1 text-red-500 hover:text-red-700" title="Supprimer">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">Aucun préréglage enregistré</p>
+          )}
+
+          {/* Exemples intégrés */}
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase mb-1">Exemples intégrés</div>
+            <ul className="space-y-1">
+              {Object.entries(examples).map(([key, example]) => (
+                <li key={key} className="flex items-center p-2 rounded hover:bg-gray-50">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-gray-900">{example.title}</div>
+                    <div className="text-xs text-gray-500 truncate">{example.description}</div>
+                  </div>
+                  <button onClick={() => onLoadExample(key)} className="p-1 text-indigo-600 hover:text-indigo-800" title="Utiliser">
+                    <Play className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Import / export */}
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(exportPresetLibrary(presets), 'foncix-presets.json', 'application/json')}
+              disabled={presets.length === 0}
+              className="flex-1 flex items-center justify-center py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Exporter
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              Importer
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {message && (
+            <p className={`text-sm ${message.type === 'error' ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,448 @@
+"use client"
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, GripVertical, Maximize2, Pencil, X } from 'lucide-react';
+import { collectHeaders } from '@/lib/csv';
+import {
+  filterRows, moveColumn, orderColumns, sortRows, toTableRows,
+  type ColumnFilters, type SortState, type TableRow,
+} from '@/lib/resultTable';
+import { highlightText } from '@/lib/search';
+
+// Correction en ligne des cellules (index : position dans data)
+export interface CellEditing {
+  canEdit: (index: number, column: string) => boolean;
+  isModified: (index: number, column: string) => boolean;
+  // Texte initial de l'éditeur et choix proposés (liste déroulante) pour une colonne
+  toText: (column: string, value: unknown) => string;
+  choices: (column: string) => { value: string; label: string }[] | null;
+  // Lève une erreur si la saisie est refusée
+  commit: (index: number, column: string, text: string) => void;
+}
+
+interface ResultsTableProps {
+  data: unknown;
+  // Termes de la recherche à surligner
+  highlights?: string[];
+  editing?: CellEditing;
+}
+
+// Hauteur fixe des lignes : nécessaire à la virtualisation
+const ROW_HEIGHT = 40;
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN = 8;
+const DEFAULT_WIDTH = 180;
+const MIN_WIDTH = 60;
+const INDEX_WIDTH = 56;
+
+interface ExpandedCell {
+  row: TableRow;
+  column: string;
+}
+
+interface EditedCell {
+  index: number;
+  column: string;
+  initial: string;
+  text: string;
+}
+
+// Cellules repliées : tableaux longs ou composés, objets, textes longs
+const isExpandable = (value: unknown) =>
+  (Array.isArray(value) && (value.length > 3 || value.some(item => item !== null && typeof item === 'object')))
+  || (!!value && typeof value === 'object' && !Array.isArray(value))
+  || (typeof value === 'string' && value.length > 100);
+
+function Highlighted({ text, highlights }: { text: string; highlights: string[] }) {
+  if (highlights.length === 0) return <>{text}</>;
+  return (
+    <>
+      {highlightText(text, highlights).map((segment, i) =>
+        segment.match
+          ? <mark key={i} className="bg-yellow-200 text-inherit rounded-sm">{segment.text}</mark>
+          : <React.Fragment key={i}>{segment.text}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+function CellValue({ value, highlights }: { value: unknown; highlights: string[] }) {
+  if (value === null || value === undefined) {
+    return <span className="text-gray-400 italic">null</span>;
+  }
+
+  if (Array.isArray(value)) {
+    return (
+      <div className="flex gap-1 overflow-hidden">
+        {value.slice(0, 3).map((item, i) => (
+          <span key={i} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 whitespace-nowrap">
+            {item !== null && typeof item === 'object' ? '{…}' : <Highlighted text={String(item)} highlights={highlights} />}
+          </span>
+        ))}
+        {value.length > 3 && (
+          <span className="text-xs text-gray-500 whitespace-nowrap">+{value.length - 3} autres</span>
+        )}
+      </div>
+    );
+  }
+
+  if (typeof value === 'boolean') {
+    return (
+      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+        value ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+      }`}>
+        {value ? 'Oui' : 'Non'}
+      </span>
+    );
+  }
+
+  if (typeof value === 'object') {
+    return <span className="text-gray-600 text-xs font-mono truncate">{JSON.stringify(value)}</span>;
+  }
+
+  // Détecter les URLs
+  if (typeof value === 'string' && (value.startsWith('http://') || value.startsWith('https://'))) {
+    return (
+      <a
+        href={value}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-blue-600 hover:text-blue-800 underline text-xs truncate"
+      >
+        {value}
+      </a>
+    );
+  }
+
+  return <span className="truncate"><Highlighted text={String(value)} highlights={highlights} /></span>;
+}
+
+// Tableau virtualisé des résultats : tri, filtres, colonnes redimensionnables, déplaçables et masquables
+export default function ResultsTable({ data, highlights = [], editing }: ResultsTableProps) {
+  const rows = useMemo(() => toTableRows(data), [data]);
+  const columns = useMemo(() => (rows ? collectHeaders(rows.map(row => row.values)) : []), [rows]);
+
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [filters, setFilters] = useState<ColumnFilters>({});
+  const [order, setOrder] = useState<string[]>([]);
+  const [hidden, setHidden] = useState<string[]>([]);
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const [dragged, setDragged] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<ExpandedCell | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [editedCell, setEditedCell] = useState<EditedCell | null>(null);
+  // Cellule en cours de saisie, lue au blur (qui suit aussi Entrée / Échap)
+  const editedCellRef = useRef<EditedCell | null>(null);
+  const [editError, setEditError] = useState('');
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const orderedColumns = useMemo(() => orderColumns(columns, order), [columns, order]);
+  const visibleColumns = orderedColumns.filter(column => !hidden.includes(column));
+
+  const displayRows = useMemo(
+    () => (rows ? sortRows(filterRows(rows, filters), sort) : []),
+    [rows, filters, sort]
+  );
+
+  if (!rows || rows.length === 0) return null;
+
+  // Fenêtre de lignes rendues
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(displayRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const windowRows = displayRows.slice(start, end);
+
+  const widthOf = (column: string) => widths[column] ?? DEFAULT_WIDTH;
+  const totalWidth = INDEX_WIDTH + visibleColumns.reduce((sum, column) => sum + widthOf(column), 0);
+
+  const toggleSort = (column: string) => {
+    setSort(current => {
+      if (current?.column !== column) return { column, direction: 'asc' };
+      return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const updateFilter = (column: string, value: string) => {
+    setFilters(current => ({ ...current, [column]: value }));
+    setScrollTop(0);
+    viewportRef.current?.scrollTo({ top: 0 });
+  };
+
+  const toggleColumn = (column: string) => {
+    setHidden(current => (current.includes(column) ? current.filter(c => c !== column) : [...current, column]));
+  };
+
+  const startResize = (e: React.MouseEvent, column: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widthOf(column);
+    const onMove = (event: MouseEvent) => {
+      setWidths(current => ({ ...current, [column]: Math.max(MIN_WIDTH, startWidth + event.clientX - startX) }));
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const resetColumns = () => {
+    setOrder([]);
+    setHidden([]);
+    setWidths({});
+  };
+
+  const hasFilters = Object.values(filters).some(value => value.trim());
+
+  const updateEditedCell = (cell: EditedCell | null) => {
+    editedCellRef.current = cell;
+    setEditedCell(cell);
+  };
+
+  const startEdit = (row: TableRow, column: string) => {
+    if (!editing?.canEdit(row.index, column)) return;
+    const text = editing.toText(column, row.values[column]);
+    updateEditedCell({ index: row.index, column, initial: text, text });
+    setEditError('');
+  };
+
+  const commitEdit = (cell: EditedCell) => {
+    if (!editing) return;
+    try {
+      if (cell.text !== cell.initial) editing.commit(cell.index, cell.column, cell.text);
+      updateEditedCell(null);
+      setEditError('');
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Valeur refusée');
+    }
+  };
+
+  const cancelEdit = () => {
+    updateEditedCell(null);
+    setEditError('');
+  };
+
+  return (
+    <div>
+      {/* Barre d'outils */}
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm">
+        <span className="text-gray-600">
+          {displayRows.length === rows.length
+            ? `${rows.length} ligne(s)`
+            : `${displayRows.length} ligne(s) sur ${rows.length}`}
+          {hidden.length > 0 && <span className="ml-2 text-xs text-gray-400">{hidden.length} colonne(s) masquée(s)</span>}
+          {editing && !editError && (
+            <span className="ml-2 text-xs text-gray-400">Double-clic sur une cellule recopiée d&apos;un service pour la corriger</span>
+          )}
+          {editError && <span className="ml-2 text-xs text-red-600">{editError}</span>}
+        </span>
+        <div className="flex items-center space-x-2">
+          {hasFilters && (
+            <button onClick={() => setFilters({})} className="text-xs text-indigo-600 hover:text-indigo-800">
+              Effacer les filtres
+            </button>
+          )}
+          <div className="relative">
+            <button
+              onClick={() => setShowColumnMenu(!showColumnMenu)}
+              className="flex items-center px-2 py-1 text-xs text-gray-600 bg-white border border-gray-300 rounded hover:bg-gray-100"
+            >
+              <Columns3 className="w-3 h-3 mr-1" />
+              Colonnes
+            </button>
+            {showColumnMenu && (
+              <div className="absolute right-0 z-20 mt-1 w-56 max-h-64 overflow-auto p-2 bg-white border border-gray-200 rounded-lg shadow-lg">
+                {orderedColumns.map(column => (
+                  <label key={column} className="flex items-center px-1 py-0.5 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!hidden.includes(column)}
+                      onChange={() => toggleColumn(column)}
+                      className="text-indigo-600 mr-2"
+                    />
+                    <span className="font-mono truncate">{column}</span>
+                  </label>
+                ))}
+                <button
+                  onClick={resetColumns}
+                  className="mt-2 w-full text-xs text-indigo-600 hover:text-indigo-800"
+                >
+                  Réinitialiser les colonnes
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div
+        ref={viewportRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT + ROW_HEIGHT * 2 }}
+      >
+        <table className="table-fixed text-sm" style={{ width: totalWidth }}>
+          <colgroup>
+            <col style={{ width: INDEX_WIDTH }} />
+            {visibleColumns.map(column => <col key={column} style={{ width: widthOf(column) }} />)}
+          </colgroup>
+          <thead className="bg-gray-50 sticky top-0 z-10">
+            <tr>
+              <th className="px-2 py-2 text-left text-xs font-medium text-gray-400 border-b border-gray-200">#</th>
+              {visibleColumns.map(column => (
+                <th
+                  key={column}
+                  draggable
+                  onDragStart={() => setDragged(column)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => {
+                    if (dragged) setOrder(moveColumn(orderedColumns, dragged, column));
+                    setDragged(null);
+                  }}
+                  onDragEnd={() => setDragged(null)}
+                  className={`relative px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200 ${
+                    dragged === column ? 'opacity-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center min-w-0">
+                    <GripVertical className="w-3 h-3 mr-1 text-gray-300 flex-shrink-0 cursor-move" />
+                    <button
+                      onClick={() => toggleSort(column)}
+                      className="flex items-center min-w-0 hover:text-gray-900"
+                      title="Trier"
+                    >
+                      <span className="truncate">{column}</span>
+                      {sort?.column === column
+                        ? sort.direction === 'asc'
+                          ? <ArrowUp className="w-3 h-3 ml-1 flex-shrink-0 text-indigo-600" />
+                          : <ArrowDown className="w-3 h-3 ml-1 flex-shrink-0 text-indigo-600" />
+                        : <ArrowUpDown className="w-3 h-3 ml-1 flex-shrink-0 text-gray-300" />}
+                    </button>
+                  </div>
+                  <span
+                    onMouseDown={(e) => startResize(e, column)}
+                    className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-indigo-300"
+                  />
+                </th>
+              ))}
+            </tr>
+            {/* Filtres par colonne */}
+            <tr>
+              <th className="border-b border-gray-200" />
+              {visibleColumns.map(column => (
+                <th key={column} className="px-2 py-1 border-b border-gray-200">
+                  <input
+                    value={filters[column] ?? ''}
+                    onChange={(e) => updateFilter(column, e.target.value)}
+                    placeholder="Filtrer..."
+                    className="w-full p-1 border border-gray-300 rounded text-xs font-normal normal-case"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white">
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+            {windowRows.map(row => (
+              <tr key={row.index} className="hover:bg-gray-50 transition-colors" style={{ height: ROW_HEIGHT }}>
+                <td className="px-2 text-xs text-gray-400 border-b border-gray-100">{row.index + 1}</td>
+                {visibleColumns.map(column => {
+                  const value = row.values[column];
+                  const editable = !!editing?.canEdit(row.index, column);
+                  const modified = !!editing?.isModified(row.index, column);
+                  if (editedCell?.index === row.index && editedCell.column === column) {
+                    const choices = editing?.choices(column);
+                    return (
+                      <td key={column} className="px-1 border-b border-gray-100 bg-indigo-50">
+                        {choices ? (
+                          <select
+                            autoFocus
+                            value={editedCell.text}
+                            onChange={(e) => commitEdit({ ...editedCell, text: e.target.value })}
+                            onBlur={cancelEdit}
+                            onKeyDown={(e) => e.key === 'Escape' && cancelEdit()}
+                            className="w-full p-1 border border-indigo-300 rounded text-xs"
+                          >
+                            {choices.map(choice => <option key={choice.value} value={choice.value}>{choice.label}</option>)}
+                          </select>
+                        ) : (
+                          <input
+                            autoFocus
+                            value={editedCell.text}
+                            onChange={(e) => updateEditedCell({ ...editedCell, text: e.target.value })}
+                            onBlur={() => editedCellRef.current && commitEdit(editedCellRef.current)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitEdit(editedCell);
+                              if (e.key === 'Escape') cancelEdit();
+                            }}
+                            className={`w-full p-1 border rounded text-xs ${editError ? 'border-red-400' : 'border-indigo-300'}`}
+                          />
+                        )}
+                      </td>
+                    );
+                  }
+                  return (
+                    <td
+                      key={column}
+                      onDoubleClick={() => startEdit(row, column)}
+                      className={`px-2 text-gray-900 border-b border-gray-100 overflow-hidden ${modified ? 'bg-amber-50' : ''}`}
+                      title={modified ? 'Valeur corrigée' : undefined}
+                    >
+                      <div className="group flex items-center min-w-0 whitespace-nowrap">
+                        <div className="flex-1 min-w-0 flex overflow-hidden">
+                          <CellValue value={value} highlights={highlights} />
+                        </div>
+                        {isExpandable(value) && (
+                          <button
+                            onClick={() => setExpanded({ row, column })}
+                            className="ml-1 p-0.5 text-gray-400 hover:text-indigo-600 flex-shrink-0"
+                            title="Afficher le contenu complet"
+                          >
+                            <Maximize2 className="w-3 h-3" />
+                          </button>
+                        )}
+                        {editable && (
+                          <button
+                            onClick={() => startEdit(row, column)}
+                            className="ml-1 p-0.5 text-gray-400 hover:text-indigo-600 flex-shrink-0 opacity-0 group-hover:opacity-100"
+                            title="Corriger la valeur"
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {end < displayRows.length && <tr style={{ height: (displayRows.length - end) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+        {displayRows.length === 0 && (
+          <div className="p-6 text-center text-sm text-gray-500">Aucune ligne ne correspond aux filtres</div>
+        )}
+      </div>
+
+      {/* Contenu complet d'une cellule */}
+      {expanded && (
+        <div className="border-t border-gray-200 bg-gray-50">
+          <div className="flex items-center justify-between px-4 py-2 text-xs text-gray-600">
+            <span>
+              Ligne {expanded.row.index + 1} · <span className="font-mono">{expanded.column}</span>
+            </span>
+            <button onClick={() => setExpanded(null)} className="p-1 text-gray-500 hover:text-gray-700" title="Fermer">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <pre className="px-4 pb-4 text-xs font-mono whitespace-pre-wrap break-words max-h-64 overflow-auto">
+            {typeof expanded.row.values[expanded.column] === 'string'
+              ? String(expanded.row.values[expanded.column])
+              : JSON.stringify(expanded.row.values[expanded.column], null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
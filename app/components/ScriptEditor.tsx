@@ -0,0 +1,207 @@
+"use client"
+import React, { useEffect, useState } from 'react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
+import type * as MonacoApi from 'monaco-editor';
+import { Loader2 } from 'lucide-react';
+import { SCRIPT_TYPINGS, SCRIPT_TYPINGS_PATH } from '@/lib/scriptTypings';
+
+interface ScriptEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  // Position de l'erreur d'exécution à mettre en évidence (base 1)
+  errorLine?: number;
+  errorColumn?: number;
+}
+
+interface Diagnostic {
+  line: number;
+  message: string;
+  isError: boolean;
+}
+
+const RUNTIME_MARKER_OWNER = 'foncix-runtime';
+const TYPES_MARKER_OWNER = 'foncix-types';
+const TYPECHECK_DELAY_MS = 300;
+
+// TypeScript ne vérifie pas l'expression d'un « return » de premier niveau : les types sont
+// vérifiés sur une copie du script enveloppée dans une fonction, puis reportés sur l'éditeur
+const WRAPPER_PREFIX = '(function () {\n';
+const WRAPPER_SUFFIX = '\n});';
+
+// ModuleDetectionKind.Force : chaque script a sa propre portée (plusieurs éditeurs ouverts)
+const MODULE_DETECTION_FORCE = 3;
+
+let typingsInstalled = false;
+// Monaco local, importé à la première ouverture d'un éditeur
+let monacoLoading: Promise<unknown> | null = null;
+let shadowCount = 0;
+
+// Le chargeur fournit l'espace de noms typescript de premier niveau (monaco-editor ≥ 0.55)
+const typescriptApi = (monaco: Monaco) => (monaco as unknown as typeof MonacoApi).typescript;
+
+// Service de langage JavaScript typé par Service et DataUtils (une seule fois par page)
+function configureMonaco(monaco: Monaco) {
+  if (typingsInstalled) return;
+  typingsInstalled = true;
+
+  const { javascriptDefaults } = typescriptApi(monaco);
+  javascriptDefaults.setCompilerOptions({
+    ...javascriptDefaults.getCompilerOptions(),
+    allowJs: true,
+    checkJs: true,
+    allowNonTsExtensions: true,
+    moduleDetection: MODULE_DETECTION_FORCE,
+  });
+  // Diagnostics sémantiques calculés sur la copie enveloppée
+  javascriptDefaults.setDiagnosticsOptions({ noSemanticValidation: true, noSyntaxValidation: false });
+  javascriptDefaults.addExtraLib(SCRIPT_TYPINGS, SCRIPT_TYPINGS_PATH);
+}
+
+const flattenMessage = (message: string | { messageText: string }) =>
+  typeof message === 'string' ? message : message.messageText;
+
+// Éditeur de script : coloration, autocomplétion de DataUtils et des clés de Service, diagnostics en ligne
+export default function ScriptEditor({ value, onChange, placeholder, errorLine, errorColumn }: ScriptEditorProps) {
+  const [mounted, setMounted] = useState<{ editor: Parameters<OnMount>[0]; monaco: Monaco } | null>(null);
+  const [shadow, setShadow] = useState<MonacoApi.editor.ITextModel | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [monacoReady, setMonacoReady] = useState(false);
+
+  // Le chargeur doit connaître Monaco avant le montage de l'éditeur
+  useEffect(() => {
+    let active = true;
+    monacoLoading ??= import('@/lib/monacoLoader');
+    monacoLoading.then(() => {
+      if (active) setMonacoReady(true);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Copie enveloppée, propre à chaque éditeur
+  useEffect(() => {
+    if (!mounted) return;
+    const model = mounted.monaco.editor.createModel(
+      '',
+      'javascript',
+      mounted.monaco.Uri.parse(`inmemory://foncix/script-${++shadowCount}.js`)
+    );
+    setShadow(model);
+    return () => model.dispose();
+  }, [mounted]);
+
+  // Vérification des types après chaque modification
+  useEffect(() => {
+    const model = mounted?.editor.getModel();
+    if (!mounted || !shadow || !model) return;
+    const { monaco } = mounted;
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      shadow.setValue(`${WRAPPER_PREFIX}${value}${WRAPPER_SUFFIX}`);
+      const getWorker = await typescriptApi(monaco).getJavaScriptWorker();
+      const worker = await getWorker(shadow.uri);
+      const results = await worker.getSemanticDiagnostics(shadow.uri.toString());
+      if (cancelled || model.isDisposed() || shadow.isDisposed()) return;
+
+      const lastLine = model.getLineCount();
+      monaco.editor.setModelMarkers(model, TYPES_MARKER_OWNER, results.map(result => {
+        const start = shadow.getPositionAt(result.start ?? 0);
+        const end = shadow.getPositionAt((result.start ?? 0) + (result.length ?? 0));
+        const startLineNumber = Math.min(Math.max(start.lineNumber - 1, 1), lastLine);
+        const endLineNumber = Math.min(Math.max(end.lineNumber - 1, 1), lastLine);
+        return {
+          severity: result.category === 1 ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+          message: flattenMessage(result.messageText),
+          code: String(result.code),
+          startLineNumber,
+          startColumn: start.column,
+          endLineNumber,
+          endColumn: end.column,
+        };
+      }));
+    }, TYPECHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mounted, shadow, value]);
+
+  // Marquer et sélectionner la position de l'erreur d'exécution
+  useEffect(() => {
+    const model = mounted?.editor.getModel();
+    if (!mounted || !model) return;
+    const { editor, monaco } = mounted;
+
+    if (!errorLine || errorLine > model.getLineCount()) {
+      monaco.editor.setModelMarkers(model, RUNTIME_MARKER_OWNER, []);
+      return;
+    }
+    const startColumn = Math.max(errorColumn ?? 1, 1);
+    const endColumn = model.getLineMaxColumn(errorLine);
+    monaco.editor.setModelMarkers(model, RUNTIME_MARKER_OWNER, [{
+      severity: monaco.MarkerSeverity.Error,
+      message: 'Erreur à l\'exécution',
+      startLineNumber: errorLine,
+      startColumn,
+      endLineNumber: errorLine,
+      endColumn,
+    }]);
+    editor.setSelection({ startLineNumber: errorLine, startColumn, endLineNumber: errorLine, endColumn });
+    editor.revealLineInCenter(errorLine);
+    editor.focus();
+  }, [mounted, errorLine, errorColumn]);
+
+  return (
+    <div>
+      <div className={`h-40 border rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-indigo-500 ${
+        errorLine || diagnostics.some(d => d.isError) ? 'border-red-300' : 'border-gray-300'
+      }`}>
+        {monacoReady ? (
+          <Editor
+            language="javascript"
+            value={value}
+            onChange={(next) => onChange(next ?? '')}
+            beforeMount={configureMonaco}
+            onMount={(editor, monaco) => setMounted({ editor, monaco })}
+            onValidate={(markers) => setDiagnostics(markers
+              .filter(marker => marker.owner !== RUNTIME_MARKER_OWNER)
+              .map(marker => ({
+                line: marker.startLineNumber,
+                message: marker.message,
+                isError: marker.severity === mounted?.monaco.MarkerSeverity.Error,
+              })))}
+            loading={<Loader2 className="w-5 h-5 animate-spin text-gray-400" />}
+            options={{
+              placeholder,
+              minimap: { enabled: false },
+              fontSize: 13,
+              lineNumbersMinChars: 3,
+              scrollBeyondLastLine: false,
+              tabSize: 2,
+              automaticLayout: true,
+              fixedOverflowWidgets: true,
+            }}
+          />
+        ) : (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        )}
+      </div>
+      {diagnostics.length > 0 && (
+        <ul className="mt-1 space-y-0.5 text-xs">
+          {diagnostics.slice(0, 3).map((diagnostic, index) => (
+            <li key={index} className={diagnostic.isError ? 'text-red-600' : 'text-amber-600'}>
+              Ligne {diagnostic.line} : {diagnostic.message}
+            </li>
+          ))}
+          {diagnostics.length > 3 && <li className="text-gray-500">… {diagnostics.length - 3} autre(s)</li>}
+        </ul>
+      )}
+    </div>
+  );
+}
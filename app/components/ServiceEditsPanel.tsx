@@ -0,0 +1,127 @@
+"use client"
+import React, { useMemo } from 'react';
+import { Download, FileDiff, PencilLine, Redo2, Trash2, Undo2 } from 'lucide-react';
+import { downloadFile } from '@/lib/download';
+import {
+  applyEdits, buildJsonPatch, emptyHistory, formatFieldInput, netChanges, redoEdit, undoEdit,
+  type EditHistory, type FieldEdit, type PatchTarget,
+} from '@/lib/serviceEdits';
+import type { Service } from '@/lib/types';
+
+interface ServiceEditsPanelProps {
+  // Services tels que chargés, avant corrections
+  services: Service[];
+  // Document d'origine visé par le JSON Patch
+  target: PatchTarget;
+  history: EditHistory;
+  onChange: (history: EditHistory) => void;
+}
+
+// Modifications affichées au plus dans l'historique
+const MAX_LISTED = 50;
+
+function ChangeValue({ change, side }: { change: FieldEdit; side: 'before' | 'after' }) {
+  const text = formatFieldInput(change.field, change[side]);
+  return text
+    ? <span className={side === 'before' ? 'text-red-700 line-through' : 'text-green-700'}>{text}</span>
+    : <span className="text-gray-400 italic">vide</span>;
+}
+
+// Corrections saisies dans le tableau : annuler / rétablir et export pour les mainteneurs du portail
+export default function ServiceEditsPanel({ services, target, history, onChange }: ServiceEditsPanelProps) {
+  const net = useMemo(() => netChanges(history.done), [history.done]);
+  const recent = [...history.done].reverse().slice(0, MAX_LISTED);
+
+  const exportPatch = () => {
+    const patch = buildJsonPatch(target, history.done);
+    downloadFile(JSON.stringify(patch, null, 2), 'corrections.patch.json', 'application/json-patch+json');
+  };
+
+  const exportDataset = () => {
+    downloadFile(JSON.stringify(applyEdits(services, history.done), null, 2), 'services_corriges.json', 'application/json');
+  };
+
+  return (
+    <div className="mb-4 border border-amber-200 rounded-xl overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 bg-amber-50">
+        <span className="flex items-center text-sm font-medium text-amber-900">
+          <PencilLine className="w-4 h-4 mr-2" />
+          Corrections
+          <span className="ml-2 px-2 py-0.5 text-xs font-normal rounded-full bg-amber-100 text-amber-800">
+            {net.length} champ(s) modifié(s) · {new Set(net.map(change => change.serviceId)).size} service(s)
+          </span>
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onChange(undoEdit(history))}
+            disabled={history.done.length === 0}
+            className="p-1.5 text-gray-600 rounded hover:bg-amber-100 disabled:opacity-30"
+            title="Annuler la dernière correction"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onChange(redoEdit(history))}
+            disabled={history.undone.length === 0}
+            className="p-1.5 text-gray-600 rounded hover:bg-amber-100 disabled:opacity-30"
+            title="Rétablir la correction annulée"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={exportPatch}
+            disabled={net.length === 0}
+            className="flex items-center px-2 py-1 text-xs text-amber-900 bg-white border border-amber-200 rounded hover:bg-amber-100 disabled:opacity-40"
+            title="Opérations JSON Patch (RFC 6902) sur le document chargé, aux positions d'origine des services"
+          >
+            <FileDiff className="w-3 h-3 mr-1" />
+            JSON Patch
+          </button>
+          <button
+            onClick={exportDataset}
+            disabled={net.length === 0}
+            className="flex items-center px-2 py-1 text-xs text-amber-900 bg-white border border-amber-200 rounded hover:bg-amber-100 disabled:opacity-40"
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Jeu corrigé
+          </button>
+          <button
+            onClick={() => onChange(emptyHistory())}
+            className="p-1.5 text-red-600 rounded hover:bg-red-50"
+            title="Abandonner toutes les corrections"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {recent.length > 0 ? (
+        <ul className="max-h-48 overflow-auto divide-y divide-gray-100 text-xs">
+          {recent.map((edit, index) => (
+            <li key={`${edit.at}-${index}`} className="px-4 py-1.5">
+              <div className="flex items-center justify-between text-gray-500">
+                <span>
+                  <span className="font-medium text-gray-800">{edit.serviceName}</span>
+                  <span className="ml-1 font-mono text-gray-400">{edit.serviceId}</span>
+                </span>
+                <span>{new Date(edit.at).toLocaleTimeString('fr-FR')}</span>
+              </div>
+              {edit.changes.map(change => (
+                <div key={change.field} className="flex flex-wrap items-baseline gap-1 break-all">
+                  <span className="font-mono text-purple-700">{change.field}</span>
+                  <ChangeValue change={change} side="before" />
+                  <span className="text-gray-400">→</span>
+                  <ChangeValue change={change} side="after" />
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="px-4 py-2 text-xs text-gray-500">
+          Toutes les corrections ont été annulées ({history.undone.length} rétablissable(s)).
+        </p>
+      )}
+    </div>
+  );
+}
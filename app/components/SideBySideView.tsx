@@ -0,0 +1,83 @@
+"use client"
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import JsonTree from './JsonTree';
+import type { Service } from '@/lib/types';
+
+interface SideBySideViewProps {
+  // Services en entrée de la transformation, dans l'ordre
+  services: Service[];
+  result: unknown;
+}
+
+const PAGE_SIZE = 20;
+
+// Chaque service source à côté de l'enregistrement transformé de même position
+export default function SideBySideView({ services, result }: SideBySideViewProps) {
+  const [page, setPage] = useState(0);
+
+  if (!Array.isArray(result) || result.length !== services.length) {
+    return (
+      <div className="p-6 text-sm text-gray-600">
+        La comparaison côte à côte demande un enregistrement transformé par service.
+        Ce résultat compte {Array.isArray(result) ? `${result.length} élément(s)` : 'un seul objet'} pour {services.length} service(s)
+        (regroupement, filtrage ou statistiques dans le script).
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(Math.ceil(services.length / PAGE_SIZE), 1);
+  const current = Math.min(page, pageCount - 1);
+  const start = current * PAGE_SIZE;
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-4 px-4 py-2 bg-gray-50 border-b border-gray-200 text-xs font-medium text-gray-600">
+        <span>Service source</span>
+        <span>Enregistrement transformé</span>
+      </div>
+      <div className="overflow-auto max-h-96 divide-y divide-gray-100">
+        {services.slice(start, start + PAGE_SIZE).map((service, offset) => {
+          const index = start + offset;
+          return (
+            <div key={`${service.id}-${index}`} className="px-4 py-2">
+              <div className="mb-1 text-xs text-gray-500">
+                <span className="font-mono text-gray-400">#{index}</span> {service.name}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <JsonTree data={service} rootPath={`services[${index}]`} />
+                <JsonTree data={result[index]} rootPath={`$[${index}]`} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between px-4 py-2 border-t border-gray-200 text-xs text-gray-600">
+          <span>
+            {start + 1}–{Math.min(start + PAGE_SIZE, services.length)} sur {services.length}
+          </span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setPage(current - 1)}
+              disabled={current === 0}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+              title="Page précédente"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>{current + 1} / {pageCount}</span>
+            <button
+              onClick={() => setPage(current + 1)}
+              disabled={current >= pageCount - 1}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+              title="Page suivante"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
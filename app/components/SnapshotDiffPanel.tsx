@@ -0,0 +1,317 @@
+"use client"
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowLeftRight, Download, Loader2, Upload } from 'lucide-react';
+import { applyMapping, detectImportFormat, guessMapping, mappingError, readTabularFile } from '@/lib/importers';
+import { downloadFile } from '@/lib/download';
+import {
+  CHANGE_TYPES, diffServices, diffToCsv, diffToJson, filterChanges,
+  type ChangeType, type ServiceChange,
+} from '@/lib/snapshotDiff';
+import { validateApiResponse } from '@/lib/validation';
+import type { CatalogueResponse, Service, SnapshotInfo } from '@/lib/types';
+
+interface SnapshotDiffPanelProps {
+  // Services actuellement chargés dans la page
+  currentServices: Service[];
+  snapshots: SnapshotInfo[];
+  // Lecture d'une réponse de catalogue (/api/services, /api/snapshots/:id)
+  onFetch: (url: string) => Promise<CatalogueResponse>;
+}
+
+interface Dataset {
+  label: string;
+  services: Service[];
+}
+
+type DatasetSource = 'current' | 'api' | 'snapshot' | 'file';
+
+const SOURCE_LABELS: Record<DatasetSource, string> = {
+  current: 'Données chargées',
+  api: 'API (portail)',
+  snapshot: 'Instantané',
+  file: 'Fichier',
+};
+
+const CHANGE_LABELS: Record<ChangeType, string> = {
+  added: 'Ajoutés',
+  removed: 'Supprimés',
+  deactivated: 'Désactivés',
+  reactivated: 'Réactivés',
+  renamed: 'Renommés',
+  recategorized: 'Recatégorisés',
+  modified: 'Autres modifications',
+};
+
+const CHANGE_COLORS: Record<ChangeType, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  deactivated: 'bg-orange-100 text-orange-800',
+  reactivated: 'bg-teal-100 text-teal-800',
+  renamed: 'bg-blue-100 text-blue-800',
+  recategorized: 'bg-purple-100 text-purple-800',
+  modified: 'bg-gray-100 text-gray-800',
+};
+
+const PAGE_SIZE = 100;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+// Services valides d'un fichier JSON, CSV, XLSX ou NDJSON (colonnes associées automatiquement)
+async function readServicesFile(file: File): Promise<Service[]> {
+  const format = detectImportFormat(file.name);
+  if (!format) throw new Error(`Format non pris en charge: ${file.name}`);
+  if (format === 'json') {
+    return validateApiResponse(JSON.parse(await file.text())).valid;
+  }
+  const table = await readTabularFile(file);
+  const mapping = guessMapping(table.columns);
+  const problem = mappingError(mapping);
+  if (problem) throw new Error(`${file.name}: ${problem}`);
+  return validateApiResponse(applyMapping(table, mapping)).valid;
+}
+
+function DatasetPicker({ title, dataset, onChange, currentServices, snapshots, onFetch }: {
+  title: string;
+  dataset: Dataset | null;
+  onChange: (dataset: Dataset) => void;
+  currentServices: Service[];
+  snapshots: SnapshotInfo[];
+  onFetch: (url: string) => Promise<CatalogueResponse>;
+}) {
+  const [source, setSource] = useState<DatasetSource>('current');
+  const [snapshotId, setSnapshotId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const load = async (read: () => Promise<Dataset>) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      onChange(await read());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Chargement impossible');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchCatalogue = (url: string, fallbackLabel: string) => load(async () => {
+    const body = await onFetch(url);
+    const date = new Date(body.snapshot.fetchedAt).toLocaleString('fr-FR');
+    return { label: `${fallbackLabel} du ${date}`, services: validateApiResponse(body).valid };
+  });
+
+  const loadSelected = () => {
+    switch (source) {
+      case 'current':
+        onChange({ label: 'Données chargées', services: currentServices });
+        break;
+      case 'api':
+        fetchCatalogue('/api/services?categories=true&eservices=true', 'API');
+        break;
+      case 'snapshot':
+        if (snapshotId) fetchCatalogue(`/api/snapshots/${encodeURIComponent(snapshotId)}`, 'Instantané');
+        break;
+      case 'file':
+        inputRef.current?.click();
+        break;
+    }
+  };
+
+  return (
+    <div className="flex-1 p-3 bg-gray-50 rounded-lg text-sm">
+      <div className="font-medium text-gray-700 mb-2">{title}</div>
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value as DatasetSource)}
+          className="p-1.5 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-indigo-500"
+        >
+          {(Object.keys(SOURCE_LABELS) as DatasetSource[]).map(key => (
+            <option key={key} value={key}>{SOURCE_LABELS[key]}</option>
+          ))}
+        </select>
+        {source === 'snapshot' && (
+          <select
+            value={snapshotId}
+            onChange={(e) => setSnapshotId(e.target.value)}
+            className="flex-1 min-w-0 p-1.5 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-indigo-500"
+          >
+            <option value="">{snapshots.length > 0 ? 'Choisir...' : 'Aucun instantané'}</option>
+            {snapshots.map(s => (
+              <option key={s.id} value={s.id}>
+                {new Date(s.fetchedAt).toLocaleString('fr-FR')} — {s.serviceCount} services
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={loadSelected}
+          disabled={isLoading || (source === 'current' && currentServices.length === 0) || (source === 'snapshot' && !snapshotId)}
+          className="flex items-center px-2 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isLoading
+            ? <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            : source === 'file' && <Upload className="w-3 h-3 mr-1" />}
+          {source === 'file' ? 'Choisir un fichier' : 'Charger'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.csv,.tsv,.txt,.xlsx,.ndjson,.jsonl"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) load(async () => ({ label: file.name, services: await readServicesFile(file) }));
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <div className="mt-2 text-xs text-gray-500">
+        {dataset ? `${dataset.label} — ${dataset.services.length} service(s)` : 'Aucun jeu chargé'}
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+function ChangeRow({ change }: { change: ServiceChange }) {
+  return (
+    <li className="p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-900">{change.name}</span>
+        <span className="font-mono text-xs text-gray-500">{change.id}</span>
+        {change.types.map(type => (
+          <span key={type} className={`px-1.5 py-0.5 rounded text-xs ${CHANGE_COLORS[type]}`}>{CHANGE_LABELS[type]}</span>
+        ))}
+      </div>
+      {change.fields.length > 0 && (
+        <table className="mt-2 w-full text-xs">
+          <tbody>
+            {change.fields.map(({ field, before, after }) => (
+              <tr key={field} className="align-top">
+                <td className="w-28 py-0.5 pr-2 font-mono text-gray-500">{field}</td>
+                <td className="py-0.5 pr-2 text-red-700 line-through decoration-red-300 break-words">{formatValue(before)}</td>
+                <td className="py-0.5 text-green-700 break-words">{formatValue(after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </li>
+  );
+}
+
+// Comparaison de deux chargements du catalogue
+export default function SnapshotDiffPanel({ currentServices, snapshots, onFetch }: SnapshotDiffPanelProps) {
+  const [before, setBefore] = useState<Dataset | null>(null);
+  const [after, setAfter] = useState<Dataset | null>(null);
+  const [selectedTypes, setSelectedTypes] = useState<ChangeType[]>([]);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const diff = useMemo(
+    () => (before && after ? diffServices(before.services, after.services) : null),
+    [before, after]
+  );
+  const changes = useMemo(
+    () => (diff ? filterChanges(diff.changes, selectedTypes) : []),
+    [diff, selectedTypes]
+  );
+
+  const toggleType = (type: ChangeType) => {
+    setSelectedTypes(selectedTypes.includes(type) ? selectedTypes.filter(t => t !== type) : [...selectedTypes, type]);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const exportDiff = (format: 'json' | 'csv') => {
+    if (!diff) return;
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(diffToJson(diff, changes), `comparaison-${date}.json`, 'application/json');
+    } else {
+      downloadFile(diffToCsv(changes), `comparaison-${date}.csv`, 'text/csv;charset=utf-8');
+    }
+  };
+
+  const pickerProps = { currentServices, snapshots, onFetch };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row items-stretch gap-2">
+        <DatasetPicker title="Avant" dataset={before} onChange={setBefore} {...pickerProps} />
+        <button
+          onClick={() => {
+            setBefore(after);
+            setAfter(before);
+          }}
+          disabled={!before && !after}
+          className="self-center p-2 text-gray-500 hover:text-indigo-600 disabled:opacity-30"
+          title="Inverser"
+        >
+          <ArrowLeftRight className="w-4 h-4" />
+        </button>
+        <DatasetPicker title="Après" dataset={after} onChange={setAfter} {...pickerProps} />
+      </div>
+
+      {!diff ? (
+        <div className="border-2 border-dashed border-gray-300 rounded-xl p-12 text-center text-gray-500">
+          Chargez deux jeux de services pour les comparer
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {CHANGE_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => toggleType(type)}
+                disabled={diff.summary[type] === 0}
+                className={`px-2 py-1 rounded-lg text-xs font-medium border transition-colors disabled:opacity-40 ${
+                  selectedTypes.includes(type) ? `${CHANGE_COLORS[type]} border-current` : 'bg-white text-gray-700 border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                {CHANGE_LABELS[type]} <span className="ml-1 font-bold">{diff.summary[type]}</span>
+              </button>
+            ))}
+            <span className="text-xs text-gray-500">{diff.unchanged} inchangé(s)</span>
+            <div className="ml-auto flex gap-2">
+              {(['json', 'csv'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => exportDiff(format)}
+                  disabled={changes.length === 0}
+                  className="flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50"
+                >
+                  <Download className="w-3 h-3 mr-1" />
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="p-6 text-center text-sm text-gray-500">Aucune différence</p>
+          ) : (
+            <ul className="border border-gray-200 rounded-xl divide-y divide-gray-100 text-sm max-h-[32rem] overflow-y-auto">
+              {changes.slice(0, visibleCount).map(change => <ChangeRow key={change.id} change={change} />)}
+              {changes.length > visibleCount && (
+                <li className="p-2 text-center">
+                  <button
+                    onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                    className="text-xs text-indigo-600 hover:text-indigo-800"
+                  >
+                    Afficher plus ({changes.length - visibleCount} restant(s))
+                  </button>
+                </li>
+              )}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
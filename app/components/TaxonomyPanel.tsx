@@ -0,0 +1,167 @@
+"use client"
+import React, { useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Download, Tags, Trash2, Upload, X } from 'lucide-react';
+import { DataUtils } from '@/lib/dataUtils';
+import { downloadFile } from '@/lib/download';
+import {
+  buildCategoryTree, emptyTaxonomy, isEmptyTaxonomy, mergeCategory, parseTaxonomy, removeAlias, setCategoryParent,
+  wouldCreateCycle, type CategoryTaxonomy,
+} from '@/lib/taxonomy';
+import type { Service } from '@/lib/types';
+
+interface TaxonomyPanelProps {
+  // Catégories telles que reçues (liste du portail ou déduite des services)
+  categories: string[];
+  // Services chargés, avant application de la taxonomie
+  services: Service[];
+  taxonomy: CategoryTaxonomy;
+  onChange: (taxonomy: CategoryTaxonomy) => void;
+}
+
+// Taxonomie des catégories : fusions / alias et hiérarchie, enregistrées localement
+export default function TaxonomyPanel({ categories, services, taxonomy, onChange }: TaxonomyPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const tree = useMemo(() => buildCategoryTree(categories, taxonomy), [categories, taxonomy]);
+  // Services par catégorie, sous-catégories comprises
+  const groups = useMemo(() => DataUtils.groupByCategory(services, taxonomy), [services, taxonomy]);
+  const aliases = Object.entries(taxonomy.aliases).sort(([a], [b]) => a.localeCompare(b, 'fr'));
+  const parentCount = Object.keys(taxonomy.parents).length;
+
+  const update = (change: () => CategoryTaxonomy) => {
+    setError('');
+    try {
+      onChange(change());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Modification de la taxonomie impossible');
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setError('');
+    try {
+      onChange(parseTaxonomy(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fichier de taxonomie illisible');
+    }
+  };
+
+  if (tree.length === 0 && isEmptyTaxonomy(taxonomy)) return null;
+
+  return (
+    <div className="mb-6 p-3 bg-gray-50 rounded-lg text-sm">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center text-gray-700">
+          <Tags className="w-4 h-4 mr-2 text-gray-500" />
+          Taxonomie des catégories
+          {expanded ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />}
+        </button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="flex items-center text-xs text-indigo-600 hover:text-indigo-800"
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            Importer
+          </button>
+          <button
+            onClick={() => downloadFile(JSON.stringify(taxonomy, null, 2), 'taxonomie.json', 'application/json')}
+            disabled={isEmptyTaxonomy(taxonomy)}
+            className="flex items-center text-xs text-indigo-600 hover:text-indigo-800 disabled:opacity-40"
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Exporter
+          </button>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="mt-1 text-xs text-gray-500">
+        {isEmptyTaxonomy(taxonomy)
+          ? 'Catégories utilisées telles que reçues'
+          : `${aliases.length} alias ou fusion(s) · ${parentCount} rattachement(s) à une catégorie parente`}
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <div className="max-h-64 overflow-y-auto border border-gray-200 rounded bg-white divide-y divide-gray-100">
+            {tree.map(({ name, depth }) => (
+              <div key={name} className="flex items-center gap-2 px-2 py-1">
+                <span className="flex-1 min-w-0 truncate text-xs" style={{ paddingLeft: depth * 16 }} title={name}>
+                  {name}
+                  <span className="ml-1 text-gray-400">({groups[name]?.length ?? 0})</span>
+                </span>
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && update(() => mergeCategory(taxonomy, name, e.target.value))}
+                  className="w-36 p-1 border border-gray-300 rounded text-xs"
+                  title="Fusionner cette catégorie dans une autre"
+                >
+                  <option value="">Fusionner dans…</option>
+                  {tree.filter(other => other.name !== name).map(other => (
+                    <option key={other.name} value={other.name}>{other.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={taxonomy.parents[name] ?? ''}
+                  onChange={(e) => update(() => setCategoryParent(taxonomy, name, e.target.value || null))}
+                  className="w-36 p-1 border border-gray-300 rounded text-xs"
+                  title="Catégorie parente"
+                >
+                  <option value="">Sans parente</option>
+                  {tree.filter(other => !wouldCreateCycle(taxonomy, name, other.name)).map(other => (
+                    <option key={other.name} value={other.name}>{other.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {aliases.length > 0 && (
+            <div>
+              <div className="mb-1 text-xs font-medium text-gray-600">Alias et fusions</div>
+              <div className="flex flex-wrap gap-1">
+                {aliases.map(([alias, target]) => (
+                  <span key={alias} className="flex items-center px-2 py-0.5 bg-white border border-gray-200 rounded text-xs">
+                    {alias} → {target}
+                    <button
+                      onClick={() => update(() => removeAlias(taxonomy, alias))}
+                      className="ml-1 text-gray-400 hover:text-red-600"
+                      title="Retirer cet alias"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {!isEmptyTaxonomy(taxonomy) && (
+            <button
+              onClick={() => update(() => emptyTaxonomy())}
+              className="flex items-center text-xs text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              Réinitialiser la taxonomie
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client"
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronUp, Wrench } from 'lucide-react';
+import type { RecordReport, ValidationReport } from '@/lib/validation';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+  // Données en attente : l'utilisateur doit confirmer le chargement partiel
+  pending: boolean;
+  onLoadValid: () => void;
+  onDismiss: () => void;
+}
+
+const MAX_LISTED = 100;
+
+// Rapport de validation des services chargés
+export default function ValidationReportPanel({ report, pending, onLoadValid, onDismiss }: ValidationReportPanelProps) {
+  const [showInvalid, setShowInvalid] = useState(pending);
+  const [showNormalized, setShowNormalized] = useState(false);
+
+  const renderRecords = (records: RecordReport[], field: 'errors' | 'fixes') => (
+    <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-gray-100 text-xs bg-white rounded border border-gray-200">
+      {records.slice(0, MAX_LISTED).map(record => (
+        <li key={record.index} className="p-2">
+          <div className="font-medium text-gray-800">
+            #{record.index + 1}
+            {record.id && <span className="ml-2 font-mono text-gray-500">{record.id}</span>}
+            {record.name && <span className="ml-2">{record.name}</span>}
+          </div>
+          <ul className="mt-1 list-disc list-inside text-gray-600">
+            {record[field].map((reason, i) => <li key={i}>{reason}</li>)}
+          </ul>
+        </li>
+      ))}
+      {records.length > MAX_LISTED && (
+        <li className="p-2 text-gray-500 italic">… et {records.length - MAX_LISTED} autre(s)</li>
+      )}
+    </ul>
+  );
+
+  return (
+    <div className={`mb-6 p-4 rounded-lg border ${
+      report.invalid.length > 0 ? 'bg-orange-50 border-orange-200' : 'bg-green-50 border-green-200'
+    }`}>
+      <div className="flex items-start">
+        {report.invalid.length > 0
+          ? <AlertTriangle className="w-5 h-5 text-orange-600 mr-2 flex-shrink-0" />
+          : <CheckCircle className="w-5 h-5 text-green-600 mr-2 flex-shrink-0" />}
+        <div className="text-sm text-gray-700">
+          <div className="font-medium">Validation des données</div>
+          <div>
+            {report.valid.length} valide(s) sur {report.total}
+            {report.invalid.length > 0 && `, ${report.invalid.length} rejeté(s)`}
+            {report.normalized.length > 0 && `, ${report.normalized.length} normalisé(s)`}
+          </div>
+        </div>
+      </div>
+
+      {report.invalid.length > 0 && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowInvalid(!showInvalid)}
+            className="flex items-center text-sm font-medium text-orange-700"
+          >
+            {showInvalid ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+            Enregistrements invalides ({report.invalid.length})
+          </button>
+          {showInvalid && renderRecords(report.invalid, 'errors')}
+        </div>
+      )}
+
+      {report.normalized.length > 0 && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowNormalized(!showNormalized)}
+            className="flex items-center text-sm font-medium text-gray-700"
+          >
+            <Wrench className="w-4 h-4 mr-1" />
+            Corrections appliquées ({report.normalized.length})
+          </button>
+          {showNormalized && renderRecords(report.normalized, 'fixes')}
+        </div>
+      )}
+
+      <div className="mt-4 flex gap-2">
+        {pending && (
+          <button
+            onClick={onLoadValid}
+            disabled={report.valid.length === 0}
+            className="flex-1 bg-indigo-600 text-white py-2 px-3 rounded-lg text-sm hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Charger les {report.valid.length} service(s) valide(s)
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          className="py-2 px-3 rounded-lg text-sm border border-gray-300 text-gray-700 hover:bg-white"
+        >
+          {pending ? 'Annuler' : 'Fermer'}
+        </button>
+      </div>
+    </div>
+  );
+}
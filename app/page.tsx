@@ -1,172 +1,62 @@
 
 "use client"
-import React, { useState, useEffect } from 'react';
-import { Copy, Eye, Play, Loader2, CheckCircle, Code, Settings, FileText, Download, Filter, Trash2, RefreshCw, Globe, Database, Sparkles, ChevronDown, ChevronUp } from 'lucide-react';
-
-// Types TypeScript
-interface Service {
-  name: string;
-  id: string;
-  categories: string[];
-  description: string;
-  status: "Actif" | "Inactif";
-  isActive: boolean;
-  institutionId: string;
-  icon: string | null;
-  url?: string;
-}
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BarChart3, ClipboardCheck, Copy, GitCompare, Eye, Play, Loader2, CheckCircle, Code, Settings, FileText, Download, Filter, Trash2, RefreshCw, Globe, Database, Sparkles, ChevronDown, ChevronUp, History, AlertTriangle, XCircle, Link2, SlidersHorizontal, Workflow, ListTree, Columns2 } from 'lucide-react';
 
-interface ApiResponse {
-  services: Service[];
-  categories?: string[];
-}
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import AuditPanel from './components/AuditPanel';
+import DeclarativeSchemaBuilder from './components/DeclarativeSchemaBuilder';
+import FileImportPanel from './components/FileImportPanel';
+import FilterExpressionBuilder from './components/FilterExpressionBuilder';
+import InstitutionsPanel from './components/InstitutionsPanel';
+import JsonInspector from './components/JsonInspector';
+import PipelineEditor from './components/PipelineEditor';
+import PresetManager from './components/PresetManager';
+import ResultsTable, { type CellEditing } from './components/ResultsTable';
+import SideBySideView from './components/SideBySideView';
+import SnapshotDiffPanel from './components/SnapshotDiffPanel';
+import ScriptEditor from './components/ScriptEditor';
+import ServiceEditsPanel from './components/ServiceEditsPanel';
+import TaxonomyPanel from './components/TaxonomyPanel';
+import ValidationReportPanel from './components/ValidationReportPanel';
+import { DataUtils } from '@/lib/dataUtils';
+import { DEFAULT_CSV_OPTIONS, type CsvOptions } from '@/lib/csv';
+import { downloadFile } from '@/lib/download';
+import { buildExportFilename, getExporter, listExporters } from '@/lib/exporters';
+import type { DeclarativeSchema } from '@/lib/declarativeSchema';
+import { EXAMPLES, isExampleKey } from '@/lib/examples';
+import type { FilterGroup, FilterNode } from '@/lib/filterExpression';
+import { hasScriptSteps, type Pipeline } from '@/lib/pipeline';
+import { attachInstitutions, institutionLabel, loadStoredInstitutions, mergeInstitutions, saveStoredInstitutions } from '@/lib/institutions';
+import { DEFAULT_SETTINGS, type CustomEditor, type StatusFilter, type TransformMode, type TransformSettings, type ViewMode } from '@/lib/presets';
+import { buildShareHash, encodeShareState, readShareStateFromHash, type DataSource, type ShareState } from '@/lib/shareState';
+import { runSandboxedTransform, TransformScriptError, type ScriptErrorInfo } from '@/lib/transformSandbox';
+import { searchServices } from '@/lib/search';
+import {
+  applyEdits, createEdit, emptyHistory, fieldChoices, formatFieldInput, isEditableField, isPassThroughCell, netChanges,
+  parseFieldInput, patchTargetFromReport, recordEdit, reflectEdits, type EditHistory, type PatchTarget,
+} from '@/lib/serviceEdits';
+import {
+  applyTaxonomy, buildCategoryTree, emptyTaxonomy, loadStoredTaxonomy, saveStoredTaxonomy, unresolveCategories,
+  type CategoryMatch, type CategoryTaxonomy,
+} from '@/lib/taxonomy';
+import { applyTransformFilters, DEFAULT_TRANSFORM_TIMEOUT_MS, runTransform, transformSpecFromSettings, type ScriptRunner } from '@/lib/transformCore';
+import { validateApiResponse, type ApiValidationReport, type RecordReport } from '@/lib/validation';
+import type { ApiError, CatalogueResponse, Institution, InstitutionsResponse, Service, ServiceKeys, SnapshotInfo } from '@/lib/types';
 
-type ServiceKeys = keyof Service;
-
-// Fonctions utilitaires étendues
-const DataUtils = {
-  // Fonction de base pour sélectionner des clés
-  formatServicesByKeys<T extends ServiceKeys>(services: Service[], keys: T[]): Pick<Service, T>[] {
-    return services.map(service => {
-      const formattedService: Partial<Service> = {};
-      keys.forEach(key => {
-        if (key in service) {
-          formattedService[key] = service[key];
-        }
-      });
-      return formattedService as Pick<Service, T>;
-    });
-  },
+// Aperçu en direct : échantillon transformé après chaque modification
+const LIVE_SAMPLE_SIZE = 50;
+const LIVE_PREVIEW_DELAY_MS = 400;
 
-  // Filtrer par catégorie
-  filterByCategory(services: Service[], category: string): Service[] {
-    return services.filter(service =>
-      service.categories.some(cat => cat.toLowerCase().includes(category.toLowerCase()))
-    );
-  },
-
-  // Filtrer par statut
-  filterByStatus(services: Service[], status: 'Actif' | 'Inactif' | 'all'): Service[] {
-    if (status === 'all') return services;
-    return services.filter(service => service.status === status);
-  },
-
-  // Recherche textuelle
-  searchServices(services: Service[], query: string): Service[] {
-    const lowQuery = query.toLowerCase();
-    return services.filter(service =>
-      service.name.toLowerCase().includes(lowQuery) ||
-      service.description.toLowerCase().includes(lowQuery) ||
-      service.categories.some(cat => cat.toLowerCase().includes(lowQuery))
-    );
-  },
-
-  // Grouper par catégorie
-  groupByCategory(services: Service[]): Record<string, Service[]> {
-    const groups: Record<string, Service[]> = {};
-    services.forEach(service => {
-      service.categories.forEach(category => {
-        if (!groups[category]) {
-          groups[category] = [];
-        }
-        groups[category].push(service);
-      });
-    });
-    return groups;
-  },
-
-  // Statistiques
-  getStats(services: Service[]) {
-    return {
-      total: services.length,
-      active: services.filter(s => s.isActive).length,
-      withUrl: services.filter(s => s.url).length,
-      categories: [...new Set(services.flatMap(s => s.categories))].length
-    };
-  },
-
-  // Transformation avancée avec schéma
-  restructureServices<T extends Record<string, any>>(
-    services: Service[],
-    schema: { [K in keyof T]: ServiceKeys | ((service: Service) => T[K]) }
-  ): T[] {
-    return services.map(service => {
-      const result = {} as T;
-      Object.entries(schema).forEach(([key, mapper]) => {
-        if (typeof mapper === 'function') {
-          result[key as keyof T] = mapper(service);
-        } else {
-          result[key as keyof T] = service[mapper as ServiceKeys] as T[keyof T];
-        }
-      });
-      return result;
-    });
-  },
-
-  // Export vers CSV
-  exportToCSV(data: any[]): string {
-    if (!data.length) return '';
-    const headers = Object.keys(data[0]);
-    const csvContent = [
-      headers.join(','),
-      ...data.map(row =>
-        headers.map(header => {
-          const value = row[header];
-          if (Array.isArray(value)) return `"${value.join('; ')}"`;
-          if (typeof value === 'string') return `"${value.replace(/"/g, '""')}"`;
-          return value;
-        }).join(',')
-      )
-    ].join('\n');
-    return csvContent;
-  }
-};
-
-// Exemples prêts à utiliser
-const EXAMPLES = {
-  basicSelection: {
-    title: "Sélection basique",
-    description: "Extraire nom, ID et statut",
-    code: `return DataUtils.formatServicesByKeys(services, ['name', 'id', 'status']);`
-  },
-  cardFormat: {
-    title: "Format carte",
-    description: "Créer des cartes pour l'affichage",
-    code: `return DataUtils.restructureServices(services, {
-  id: 'id',
-  title: 'name',
-  summary: (s) => s.description.substring(0, 100) + '...',
-  isOnline: (s) => !!s.url,
-  badgeCount: (s) => s.categories.length,
-  statusColor: (s) => s.isActive ? 'green' : 'red'
-});`
-  },
-  analytics: {
-    title: "Format analytique",
-    description: "Données pour dashboard",
-    code: `return DataUtils.restructureServices(services, {
-  serviceId: 'id',
-  serviceName: 'name',
-  categoryCount: (s) => s.categories.length,
-  hasWebAccess: (s) => !!s.url,
-  primaryCategory: (s) => s.categories[0] || 'Non classé',
-  wordCount: (s) => s.description.split(' ').length,
-  institutionCode: 'institutionId'
-});`
-  },
-  export: {
-    title: "Format d'export",
-    description: "Données simplifiées pour export",
-    code: `return DataUtils.restructureServices(services, {
-  'Nom du service': 'name',
-  'Identifiant': 'id',
-  'Catégories': (s) => s.categories.join(', '),
-  'Description courte': (s) => s.description.substring(0, 150),
-  'Actif': (s) => s.isActive ? 'Oui' : 'Non',
-  'URL': (s) => s.url || 'Non disponible'
-});`
+// Message d'erreur de transformation, avec la position dans le script si connue
+function describeTransformError(err: unknown): string {
+  if (err instanceof TransformScriptError) {
+    return err.line
+      ? `${err.message} (ligne ${err.line}${err.column ? `, colonne ${err.column}` : ''})`
+      : err.message;
   }
-};
+  return err instanceof Error ? err.message : 'Erreur lors du traitement';
+}
 
 export default function AdvancedDataTransformer() {
   // États principaux
@@ -175,153 +65,354 @@ export default function AdvancedDataTransformer() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [result, setResult] = useState<any>(null);
+  const [resultServices, setResultServices] = useState<Service[]>([]);
+  const [sourceInstitutions, setSourceInstitutions] = useState<Institution[]>([]);
+  const [localInstitutions, setLocalInstitutions] = useState<Institution[]>([]);
+  const [taxonomy, setTaxonomy] = useState<CategoryTaxonomy>(emptyTaxonomy);
+  // Corrections de la validation du dernier chargement (audit)
+  const [normalizedRecords, setNormalizedRecords] = useState<RecordReport[]>([]);
+  const [resultHighlights, setResultHighlights] = useState<string[]>([]);
+  // Corrections saisies dans le tableau (appliquées aux services chargés)
+  const [serviceEdits, setServiceEdits] = useState<EditHistory>(emptyHistory);
+  const [patchTarget, setPatchTarget] = useState<PatchTarget>({ listPointer: '', positions: new Map() });
 
   // États de configuration
-  const [dataSource, setDataSource] = useState<'api' | 'manual'>('api');
+  const [dataSource, setDataSource] = useState<DataSource>('api');
   const [jsonData, setJsonData] = useState('');
-  const [selectedKeys, setSelectedKeys] = useState<string[]>(['name', 'id']);
-  const [transformMode, setTransformMode] = useState<'keys' | 'custom'>('keys');
-  const [customSchema, setCustomSchema] = useState('');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(DEFAULT_SETTINGS.selectedKeys);
+  const [transformMode, setTransformMode] = useState<TransformMode>(DEFAULT_SETTINGS.transformMode);
+  const [customSchema, setCustomSchema] = useState(DEFAULT_SETTINGS.customSchema);
+  const [customEditor, setCustomEditor] = useState<CustomEditor>(DEFAULT_SETTINGS.customEditor);
+  const [declarativeSchema, setDeclarativeSchema] = useState<DeclarativeSchema>(DEFAULT_SETTINGS.declarativeSchema);
+  const [pipeline, setPipeline] = useState<Pipeline>(DEFAULT_SETTINGS.pipeline);
   const [selectedExample, setSelectedExample] = useState('');
+  const [transformTimeout, setTransformTimeout] = useState(DEFAULT_TRANSFORM_TIMEOUT_MS / 1000);
+  const [scriptError, setScriptError] = useState<ScriptErrorInfo | null>(null);
+  const transformAbortRef = useRef<AbortController | null>(null);
+  const [liveMode, setLiveMode] = useState(false);
+  const [livePreview, setLivePreview] = useState<{ data: unknown; sampled: number; total: number; error: string } | null>(null);
+  const liveAbortRef = useRef<AbortController | null>(null);
+  const liveRunRef = useRef(0);
 
   // États de filtrage
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-  const [statusFilter, setStatusFilter] = useState<'all' | 'Actif' | 'Inactif'>('all');
+  const [searchQuery, setSearchQuery] = useState(DEFAULT_SETTINGS.filters.searchQuery);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>(DEFAULT_SETTINGS.filters.selectedCategories);
+  const [categoryMatch, setCategoryMatch] = useState<CategoryMatch>(DEFAULT_SETTINGS.filters.categoryMatch);
+  const [selectedInstitutions, setSelectedInstitutions] = useState<string[]>(DEFAULT_SETTINGS.filters.selectedInstitutions);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>(DEFAULT_SETTINGS.filters.statusFilter);
+  const [filterExpression, setFilterExpression] = useState<FilterGroup>(DEFAULT_SETTINGS.filters.expression);
 
   // États UI
   const [copySuccess, setCopySuccess] = useState(false);
-  const [viewMode, setViewMode] = useState<'json' | 'table'>('json');
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>(DEFAULT_SETTINGS.viewMode);
   const [showFilters, setShowFilters] = useState(false);
-  const [stats, setStats] = useState<any>(null);
+  const [resultsTab, setResultsTab] = useState<'results' | 'dashboard' | 'diff' | 'audit'>('results');
+  const [exportFormat, setExportFormat] = useState('csv');
+  const [exportFilename, setExportFilename] = useState('transformed_data');
+  const [exportTableName, setExportTableName] = useState('services');
+  const [showExportOptions, setShowExportOptions] = useState(false);
+  const [csvOptions, setCsvOptions] = useState<Required<CsvOptions>>({ ...DEFAULT_CSV_OPTIONS, bom: true });
+  const [isExporting, setIsExporting] = useState(false);
+
+  // États des instantanés du catalogue
+  const [snapshot, setSnapshot] = useState<CatalogueResponse['snapshot'] | null>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+
+  // Rapport de validation du dernier chargement
+  const [validation, setValidation] = useState<{
+    report: ApiValidationReport;
+    snapshot: CatalogueResponse['snapshot'] | null;
+    pending: boolean;
+  } | null>(null);
+
+  // Dernier état écrit dans l'URL (évite de réempiler l'historique)
+  const urlStateRef = useRef<string | null>(null);
 
   const availableKeys: ServiceKeys[] = [
     'name', 'id', 'categories', 'description', 'status',
-    'isActive', 'institutionId', 'icon', 'url'
+    'isActive', 'institutionId', 'institutionName', 'icon', 'url'
   ];
 
-  // Charger les données depuis l'API
-// Charger les données depuis l'API
-const fetchFromAPI = async (includeCategories = true) => {
-  setIsLoading(true);
-  setError('');
- 
-  try {
-    const url = includeCategories
-      ? 'https://service-public.bj/api/portal/publicservices/?categories=true&eservices=true'
-      : 'https://service-public.bj/api/portal/publicservices/';
-   
-    // Solution 1: Utiliser un proxy CORS
-    const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-    
-    const response = await fetch(proxyUrl, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+  // Services enrichis du nom de leur institution
+  const institutions = useMemo(
+    () => mergeInstitutions(sourceInstitutions, localInstitutions),
+    [sourceInstitutions, localInstitutions]
+  );
+  // ... après corrections, puis catégories renommées selon la taxonomie (alias, fusions)
+  const editedServices = useMemo(() => applyEdits(services, serviceEdits.done), [services, serviceEdits]);
+  const enrichedServices = useMemo(
+    () => applyTaxonomy(attachInstitutions(editedServices, institutions), taxonomy),
+    [editedServices, institutions, taxonomy]
+  );
+  const categoryTree = useMemo(() => buildCategoryTree(categories, taxonomy), [categories, taxonomy]);
+  const resolvedCategories = useMemo(() => categoryTree.map(entry => entry.name), [categoryTree]);
+  const stats = useMemo(
+    () => (editedServices.length > 0 ? DataUtils.getStats(editedServices, taxonomy) : null),
+    [editedServices, taxonomy]
+  );
+
+  // Résultat affiché : corrections reportées sur les champs recopiés tels quels, sans relancer la transformation
+  const currentServices = useMemo(() => new Map(enrichedServices.map(service => [service.id, service])), [enrichedServices]);
+  const shownResult = useMemo(
+    () => reflectEdits(result, resultServices, currentServices),
+    [result, resultServices, currentServices]
+  );
+  const editedFields = useMemo(
+    () => new Set(netChanges(serviceEdits.done).map(change => `${change.serviceId}\u0000${change.field}`)),
+    [serviceEdits]
+  );
+
+  // Correction en ligne dans la vue tableau : une ligne par service source
+  const cellEditing: CellEditing = {
+    canEdit: (index, column) =>
+      Array.isArray(shownResult) && shownResult.length === resultServices.length
+      && isPassThroughCell(shownResult[index], currentServices.get(resultServices[index].id), column),
+    isModified: (index, column) =>
+      editedFields.has(`${resultServices[index]?.id}\u0000${column}`) && cellEditing.canEdit(index, column),
+    toText: (column, value) => (isEditableField(column) ? formatFieldInput(column, value) : String(value ?? '')),
+    choices: column => (isEditableField(column) ? fieldChoices(column) : null),
+    commit: (index, column, text) => {
+      const service = editedServices.find(s => s.id === resultServices[index]?.id);
+      if (!service || !isEditableField(column)) return;
+      // Catégories affichées après alias : la correction porte sur les noms reçus
+      const value = parseFieldInput(column, text);
+      const edit = createEdit(
+        service,
+        column,
+        column === 'categories' ? unresolveCategories(taxonomy, value as string[], service.categories) : value
+      );
+      if (edit) setServiceEdits(history => recordEdit(history, edit));
+    },
+  };
+  const institutionOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    enrichedServices.forEach(service => {
+      if (service.institutionId) options.set(service.institutionId, institutionLabel(service));
     });
-    
-    if (!response.ok) {
-      throw new Error(`Erreur HTTP: ${response.status} - ${response.statusText}`);
+    return [...options].sort(([, a], [, b]) => a.localeCompare(b, 'fr'));
+  }, [enrichedServices]);
+
+  // Lire une réponse de catalogue (/api/services ou /api/snapshots/:id)
+  const readCatalogueResponse = async (url: string): Promise<CatalogueResponse> => {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    const body: CatalogueResponse | ApiError = await response.json();
+
+    if ('error' in body) {
+      switch (body.error.code) {
+        case 'INVALID_JSON':
+          throw new Error(`Erreur JSON: ${body.error.message}`);
+        case 'INVALID_SHAPE':
+          throw new Error(`Erreur de format: ${body.error.message}`);
+        case 'SNAPSHOT_NOT_FOUND':
+          throw new Error(body.error.message);
+        default:
+          throw new Error(`Erreur serveur: ${body.error.message}`);
+      }
     }
-   
-    const textData = await response.text();
-    
-    // Nettoyer les données si nécessaire
-    let cleanData = textData.trim();
-    
-    // Vérifier si les données sont complètes
-    if (!cleanData.endsWith('}') && !cleanData.endsWith(']')) {
-      throw new Error('Données JSON incomplètes reçues');
+    return body;
+  };
+
+  // Charger des services validés dans l'état ; les corrections portaient sur le jeu précédent
+  const commitServices = (report: ApiValidationReport, snapshotInfo: CatalogueResponse['snapshot'] | null) => {
+    const servicesData = report.valid;
+    const categories = report.categories?.length
+      ? report.categories
+      : [...new Set(servicesData.flatMap(s => s.categories))];
+
+    setServices(servicesData);
+    setCategories(categories);
+    setSnapshot(snapshotInfo);
+    setNormalizedRecords(report.normalized);
+    setServiceEdits(emptyHistory());
+    setPatchTarget(patchTargetFromReport(report));
+
+    console.log(`✅ Données chargées: ${servicesData.length} services, ${categories.length} catégories`);
+  };
+
+  // Valider les données reçues ; en cas de rejets, attendre la confirmation de l'utilisateur
+  const ingestData = (data: unknown, snapshotInfo: CatalogueResponse['snapshot'] | null) => {
+    const report = validateApiResponse(data);
+    const pending = report.invalid.length > 0;
+
+    if (report.institutions) {
+      setSourceInstitutions(report.institutions);
     }
-    
-    const data: ApiResponse = JSON.parse(cleanData);
-    
-    // Validation des données
-    if (!data || typeof data !== 'object') {
-      throw new Error('Format de données invalide');
+
+    setValidation({ report, snapshot: snapshotInfo, pending });
+    if (!pending) {
+      commitServices(report, snapshotInfo);
     }
-    
-    const services = data.services || [];
-    const categories = data.categories || [];
-    
-    setServices(services);
-    setCategories(categories);
-    setStats(DataUtils.getStats(services));
-    
-    console.log(`✅ Données chargées: ${services.length} services, ${categories.length} catégories`);
-    
-  } catch (err) {
-    console.error('Erreur détaillée:', err);
-    
-    if (err instanceof Error) {
-      if (err.message.includes('CORS') || err.message.includes('cors')) {
-        setError('Erreur CORS: Impossible d\'accéder à l\'API. Utilisez le mode manuel ou essayez avec un proxy.');
-      } else if (err.message.includes('JSON') || err.message.includes('parse')) {
-        setError('Erreur JSON: Les données reçues ne sont pas au format JSON valide.');
-      } else if (err.message.includes('HTTP')) {
-        setError(`Erreur serveur: ${err.message}`);
-      } else {
-        setError(`Erreur: ${err.message}`);
-      }
-    } else {
-      setError('Erreur inconnue lors du chargement des données');
+  };
+
+  // Charger uniquement le sous-ensemble valide
+  const loadValidSubset = () => {
+    if (!validation) return;
+    commitServices(validation.report, validation.snapshot);
+    setValidation({ ...validation, pending: false });
+  };
+
+  const applyCatalogue = (body: CatalogueResponse) => {
+    const { snapshot: snapshotInfo, ...data } = body;
+    ingestData(data, snapshotInfo);
+  };
+
+  // Lister les instantanés disponibles
+  const fetchSnapshots = async () => {
+    try {
+      const response = await fetch('/api/snapshots');
+      if (!response.ok) return;
+      const body: { snapshots: SnapshotInfo[] } = await response.json();
+      setSnapshots(body.snapshots);
+    } catch (err) {
+      console.error('Erreur lors du listage des instantanés:', err);
     }
-    
+  };
 
-  } finally {
-    setIsLoading(false);
-  }
-};
+  // Charger les institutions du portail (facultatif : les identifiants restent affichés sinon)
+  const fetchInstitutionList = async () => {
+    try {
+      const response = await fetch('/api/institutions');
+      if (!response.ok) return;
+      const body: InstitutionsResponse = await response.json();
+      setSourceInstitutions(body.institutions);
+    } catch (err) {
+      console.warn('Institutions indisponibles:', err);
+    }
+  };
+
+  // Enregistrer la correspondance importée localement
+  const updateLocalInstitutions = (list: Institution[]) => {
+    setLocalInstitutions(list);
+    saveStoredInstitutions(list);
+  };
+
+  const updateTaxonomy = (next: CategoryTaxonomy) => {
+    setTaxonomy(next);
+    saveStoredTaxonomy(next);
+  };
+
+  // Charger les données depuis l'API (via la route serveur /api/services)
+  const fetchFromAPI = async (includeCategories = true) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const url = includeCategories
+        ? '/api/services?categories=true&eservices=true'
+        : '/api/services';
+
+      applyCatalogue(await readCatalogueResponse(url));
+    } catch (err) {
+      console.error('Erreur détaillée:', err);
+      setError(err instanceof Error ? err.message : 'Erreur inconnue lors du chargement des données');
+    } finally {
+      setIsLoading(false);
+      fetchSnapshots();
+    }
+  };
+
+  // Charger un instantané archivé
+  const loadSnapshot = async (id: string) => {
+    if (!id) return;
+    setIsLoading(true);
+    setError('');
+
+    try {
+      applyCatalogue(await readCatalogueResponse(`/api/snapshots/${encodeURIComponent(id)}`));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erreur lors du chargement de l\'instantané');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   // Charger les données manuellement
-  const loadManualData = () => {
-    if (!jsonData.trim()) {
+  const loadManualData = (text = jsonData) => {
+    if (!text.trim()) {
       setError('Veuillez coller vos données JSON');
       return;
     }
 
+    let parsedData: unknown;
     try {
-      const parsedData = JSON.parse(jsonData);
-      let servicesData: Service[] = [];
-
-      if (parsedData.services) {
-        servicesData = parsedData.services;
-        setCategories(parsedData.categories || []);
-      } else if (Array.isArray(parsedData)) {
-        servicesData = parsedData;
-        setCategories([...new Set(parsedData.flatMap((s: Service) => s.categories))]);
-      } else {
-        throw new Error('Format de données invalide');
-      }
+      parsedData = JSON.parse(text);
+    } catch {
+      setError('Format JSON invalide');
+      return;
+    }
 
-      setServices(servicesData);
-      setStats(DataUtils.getStats(servicesData));
+    try {
+      ingestData(parsedData, null);
       setError('');
     } catch (err) {
-      setError('Format JSON invalide');
+      setError(err instanceof Error ? err.message : 'Format de données invalide');
+    }
+  };
+
+  // Charger les enregistrements issus d'un fichier importé
+  const loadImportedRecords = (records: Record<string, unknown>[]) => {
+    try {
+      ingestData(records, null);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Format de données invalide');
     }
   };
 
   // Appliquer les filtres
-  const getFilteredServices = (): Service[] => {
-    let filtered = services;
+  const getFilteredServices = (): Service[] => applyTransformFilters(enrichedServices, getSettings().filters, taxonomy);
 
-    if (searchQuery) {
-      filtered = DataUtils.searchServices(filtered, searchQuery);
-    }
+  // Entrée du pipeline, recalculée seulement quand les filtres changent (aperçu des étapes)
+  const pipelineInput = useMemo(
+    () => applyTransformFilters(
+      enrichedServices,
+      { searchQuery, selectedCategories, categoryMatch, selectedInstitutions, statusFilter, expression: filterExpression },
+      taxonomy
+    ),
+    [enrichedServices, searchQuery, selectedCategories, categoryMatch, selectedInstitutions, statusFilter, filterExpression, taxonomy]
+  );
 
-    if (selectedCategories.length > 0) {
-      filtered = filtered.filter(service =>
-        service.categories.some(cat => selectedCategories.includes(cat))
-      );
-    }
+  // Ajouter une sélection du tableau de bord aux filtres avancés
+  const addDashboardFilter = (filter: FilterNode) => {
+    setFilterExpression(current =>
+      current.combinator === 'and' && !current.negate
+        ? { ...current, children: [...current.children, filter] }
+        : { type: 'group', combinator: 'and', children: [current, filter] }
+    );
+    setShowFilters(true);
+  };
 
-    if (statusFilter !== 'all') {
-      filtered = DataUtils.filterByStatus(filtered, statusFilter);
-    }
+  // Script exécuté dans un worker isolé (sans réseau ni DOM), annulable via abortRef
+  const sandboxRunner = (abortRef: React.RefObject<AbortController | null>): ScriptRunner => (code, input) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return runSandboxedTransform(code, input, {
+      timeoutMs: transformTimeout * 1000,
+      signal: controller.signal,
+      taxonomy,
+    });
+  };
+  const runScriptInSandbox = sandboxRunner(transformAbortRef);
+
+  // Transformer un échantillon des services filtrés (la transformation complète reste sur le bouton)
+  const runLivePreview = async () => {
+    const runId = ++liveRunRef.current;
+    liveAbortRef.current?.abort();
+    const filteredServices = getFilteredServices();
+    const sample = filteredServices.slice(0, LIVE_SAMPLE_SIZE);
 
-    return filtered;
+    let data: unknown = null;
+    let previewError = '';
+    try {
+      data = await runTransform(sample, transformSpecFromSettings(getSettings()), sandboxRunner(liveAbortRef));
+    } catch (err) {
+      previewError = describeTransformError(err);
+    }
+    // Ignorer les aperçus dépassés par une modification plus récente
+    if (runId === liveRunRef.current) {
+      setLivePreview({ data, sampled: sample.length, total: filteredServices.length, error: previewError });
+    }
   };
 
   // Traitement des données
@@ -338,41 +429,52 @@ const fetchFromAPI = async (includeCategories = true) => {
       return;
     }
 
-    if (transformMode === 'custom' && !customSchema.trim()) {
+    if (transformMode === 'custom' && customEditor === 'code' && !customSchema.trim()) {
       setError('Veuillez définir un schéma de transformation');
       return;
     }
 
+    if (transformMode === 'custom' && customEditor === 'visual' && declarativeSchema.fields.length === 0) {
+      setError('Veuillez ajouter au moins un champ au schéma');
+      return;
+    }
+
+    if (transformMode === 'pipeline' && pipeline.steps.length === 0) {
+      setError('Veuillez ajouter au moins une étape au pipeline');
+      return;
+    }
+
     setIsLoading(true);
     setError('');
+    setScriptError(null);
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 800));
-
-      let transformedData;
-
-      if (transformMode === 'keys') {
-        transformedData = DataUtils.formatServicesByKeys(filteredServices, selectedKeys as ServiceKeys[]);
-      } else {
-        const schemaFunction = new Function('services', 'DataUtils', `
-          ${customSchema}
-        `);
-        transformedData = schemaFunction(filteredServices, DataUtils);
-      }
+      const transformedData = await runTransform(filteredServices, transformSpecFromSettings(getSettings()), runScriptInSandbox);
 
       setResult(transformedData);
+      setResultServices(filteredServices);
+      setResultHighlights(searchQuery ? searchServices(services, searchQuery).highlights : []);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Erreur lors du traitement');
+      if (err instanceof TransformScriptError) {
+        setScriptError({ kind: err.kind, message: err.message, line: err.line, column: err.column });
+      }
+      setError(describeTransformError(err));
     } finally {
+      transformAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Annuler la transformation en cours
+  const cancelTransform = () => {
+    transformAbortRef.current?.abort();
+  };
+
   // Copier vers le presse-papiers
   const copyToClipboard = async () => {
     if (result) {
       try {
-        await navigator.clipboard.writeText(JSON.stringify(result, null, 2));
+        await navigator.clipboard.writeText(JSON.stringify(shownResult, null, 2));
         setCopySuccess(true);
         setTimeout(() => setCopySuccess(false), 2000);
       } catch (err) {
@@ -381,30 +483,170 @@ const fetchFromAPI = async (includeCategories = true) => {
     }
   };
 
-  // Télécharger en CSV
-  const downloadCSV = () => {
-    if (!result) return;
-    const csv = DataUtils.exportToCSV(result);
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'transformed_data.csv';
-    a.click();
-    URL.revokeObjectURL(url);
+  // Télécharger dans le format choisi
+  const downloadExport = async () => {
+    const exporter = getExporter(exportFormat);
+    if (!result || !exporter) return;
+
+    setIsExporting(true);
+    try {
+      const content = await exporter.export({
+        data: shownResult,
+        services: resultServices,
+        tableName: exportTableName.trim() || 'services',
+        csvOptions,
+        taxonomy,
+      });
+      downloadFile(content, buildExportFilename(exportFilename, exporter), exporter.mimeType);
+    } catch (err) {
+      setError(err instanceof Error ? `Erreur d'export: ${err.message}` : 'Erreur lors de l\'export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Réglages courants (préréglages)
+  const settings = useMemo((): TransformSettings => ({
+    transformMode,
+    customEditor,
+    selectedKeys,
+    customSchema,
+    declarativeSchema,
+    pipeline,
+    filters: { searchQuery, selectedCategories, categoryMatch, selectedInstitutions, statusFilter, expression: filterExpression },
+    viewMode,
+  }), [
+    transformMode, customEditor, selectedKeys, customSchema, declarativeSchema, pipeline,
+    searchQuery, selectedCategories, categoryMatch, selectedInstitutions, statusFilter, filterExpression, viewMode,
+  ]);
+  const getSettings = (): TransformSettings => settings;
+
+  const applySettings = (settings: TransformSettings) => {
+    setTransformMode(settings.transformMode);
+    setCustomEditor(settings.customEditor);
+    setSelectedKeys(settings.selectedKeys);
+    setCustomSchema(settings.customSchema);
+    setDeclarativeSchema(settings.declarativeSchema);
+    setPipeline(settings.pipeline);
+    setSearchQuery(settings.filters.searchQuery);
+    setSelectedCategories(settings.filters.selectedCategories);
+    setCategoryMatch(settings.filters.categoryMatch);
+    setSelectedInstitutions(settings.filters.selectedInstitutions);
+    setStatusFilter(settings.filters.statusFilter);
+    setFilterExpression(settings.filters.expression);
+    setViewMode(settings.viewMode);
+    setSelectedExample('');
+    setScriptError(null);
   };
 
   // Charger un exemple
   const loadExample = (exampleKey: string) => {
-    if (exampleKey && EXAMPLES[exampleKey as keyof typeof EXAMPLES]) {
-      setCustomSchema(EXAMPLES[exampleKey as keyof typeof EXAMPLES].code);
+    if (isExampleKey(exampleKey)) {
+      setCustomSchema(EXAMPLES[exampleKey].code);
+      setDeclarativeSchema(EXAMPLES[exampleKey].schema);
       setTransformMode('custom');
     }
   };
 
-  // Initialisation
+  // État partageable (URL)
+  const shareState = useMemo((): ShareState => ({
+    ...settings,
+    dataSource,
+    snapshotId: snapshot?.source === 'archive' ? snapshot.id : undefined,
+  }), [settings, dataSource, snapshot]);
+  const getShareState = (): ShareState => shareState;
+
+  const applyShareState = (state: ShareState) => {
+    applySettings(state);
+    setDataSource(state.dataSource);
+    if (state.dataSource === 'api' && state.snapshotId && state.snapshotId !== snapshot?.id) {
+      loadSnapshot(state.snapshotId);
+    }
+  };
+
+  // Copier le lien de la vue courante
+  const copyShareLink = async () => {
+    try {
+      const url = new URL(window.location.href);
+      url.hash = buildShareHash(encodeShareState(getShareState()));
+      await navigator.clipboard.writeText(url.toString());
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Erreur lors de la copie du lien:', err);
+    }
+  };
+
+  // Initialisation (chargements appelés via des refs : l'effet ne s'exécute qu'au montage)
+  const fetchFromAPIRef = useRef(fetchFromAPI);
+  fetchFromAPIRef.current = fetchFromAPI;
+  const loadSnapshotRef = useRef(loadSnapshot);
+  loadSnapshotRef.current = loadSnapshot;
+  useEffect(() => {
+    setLocalInstitutions(loadStoredInstitutions());
+    setTaxonomy(loadStoredTaxonomy());
+    fetchInstitutionList();
+
+    const shared = readShareStateFromHash(window.location.hash);
+    if (shared) {
+      urlStateRef.current = encodeShareState(shared.state);
+      applySettings(shared.state);
+      setDataSource(shared.state.dataSource);
+    }
+
+    if (shared?.state.snapshotId && shared.state.dataSource === 'api') {
+      loadSnapshotRef.current(shared.state.snapshotId);
+      fetchSnapshots();
+    } else if (!shared || shared.state.dataSource === 'api') {
+      fetchFromAPIRef.current();
+    }
+  }, []);
+
+  // Synchroniser l'URL avec l'état (une entrée d'historique par changement)
+  const shareEncoded = useMemo(() => encodeShareState(shareState), [shareState]);
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (shareEncoded === urlStateRef.current) return;
+      const url = `${window.location.pathname}${window.location.search}${buildShareHash(shareEncoded)}`;
+      if (urlStateRef.current === null) {
+        window.history.replaceState(null, '', url);
+      } else {
+        window.history.pushState(null, '', url);
+      }
+      urlStateRef.current = shareEncoded;
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [shareEncoded]);
+
+  // Aperçu en direct : relancé quand la transformation, les filtres ou les données changent
+  const liveEncoded = liveMode
+    ? JSON.stringify([transformSpecFromSettings(getSettings()), getSettings().filters, transformTimeout])
+    : '';
+  const runLivePreviewRef = useRef(runLivePreview);
+  runLivePreviewRef.current = runLivePreview;
   useEffect(() => {
-    fetchFromAPI();
+    if (!liveEncoded) {
+      liveRunRef.current++;
+      liveAbortRef.current?.abort();
+      setLivePreview(null);
+      return;
+    }
+    const timer = setTimeout(() => runLivePreviewRef.current(), LIVE_PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [liveEncoded, enrichedServices, taxonomy]);
+
+  // Navigation précédent / suivant
+  const applyShareStateRef = useRef(applyShareState);
+  applyShareStateRef.current = applyShareState;
+  useEffect(() => {
+    const onPopState = () => {
+      const shared = readShareStateFromHash(window.location.hash);
+      if (!shared) return;
+      urlStateRef.current = encodeShareState(shared.state);
+      applyShareStateRef.current(shared.state);
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
   }, []);
 
   return (
@@ -422,6 +664,19 @@ const fetchFromAPI = async (includeCategories = true) => {
             Récupérez, filtrez, transformez et exportez vos données en toute simplicité
           </p>
          
+          {/* Date des données */}
+          {snapshot && (
+            <div className={`mt-6 inline-flex items-center px-3 py-1.5 rounded-full text-sm ${
+              snapshot.stale ? 'bg-orange-50 text-orange-700 border border-orange-200' : 'bg-indigo-50 text-indigo-700'
+            }`}>
+              {snapshot.stale ? <AlertTriangle className="w-4 h-4 mr-2" /> : <History className="w-4 h-4 mr-2" />}
+              Données du {new Date(snapshot.fetchedAt).toLocaleString('fr-FR')}
+              {snapshot.stale && ' — portail indisponible, dernier instantané valide'}
+              {snapshot.source === 'archive' && ' — instantané archivé'}
+              {snapshot.cached === false && ' — non enregistré dans le cache'}
+            </div>
+          )}
+
           {/* Statistiques */}
           {stats && (
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-8 max-w-2xl mx-auto">
@@ -447,6 +702,14 @@ const fetchFromAPI = async (includeCategories = true) => {
               <div className="flex items-center mb-6">
                 <Settings className="w-6 h-6 text-indigo-600 mr-3" />
                 <h2 className="text-xl font-semibold text-gray-900">Configuration</h2>
+                <button
+                  onClick={copyShareLink}
+                  className="ml-auto flex items-center px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                  title="Copier un lien vers cette vue"
+                >
+                  {linkCopied ? <CheckCircle className="w-4 h-4 text-green-600 mr-1" /> : <Link2 className="w-4 h-4 mr-1" />}
+                  {linkCopied ? 'Lien copié' : 'Partager'}
+                </button>
               </div>
 
               {/* Source des données */}
@@ -489,11 +752,56 @@ const fetchFromAPI = async (includeCategories = true) => {
                     Recharger depuis l'API
                   </button>
                 )}
+
+                {dataSource === 'api' && snapshots.length > 0 && (
+                  <div className="mt-3">
+                    <label className="block text-xs font-medium text-gray-600 mb-1">
+                      Instantanés ({snapshots.length})
+                    </label>
+                    <select
+                      value={snapshot?.id ?? ''}
+                      onChange={(e) => loadSnapshot(e.target.value)}
+                      disabled={isLoading}
+                      className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      <option value="">Choisir un instantané...</option>
+                      {snapshots.map(s => (
+                        <option key={s.id} value={s.id}>
+                          {new Date(s.fetchedAt).toLocaleString('fr-FR')} — {s.serviceCount} services
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
               </div>
 
+              {/* Institutions */}
+              <InstitutionsPanel
+                sourceCount={sourceInstitutions.length}
+                localInstitutions={localInstitutions}
+                onLocalChange={updateLocalInstitutions}
+                resolvedCount={enrichedServices.filter(service => service.institutionName).length}
+                serviceCount={services.length}
+              />
+
+              {/* Taxonomie des catégories */}
+              <TaxonomyPanel
+                categories={categories}
+                services={services}
+                taxonomy={taxonomy}
+                onChange={updateTaxonomy}
+              />
+
               {/* Zone de saisie manuelle */}
               {dataSource === 'manual' && (
                 <div className="mb-6">
+                  <FileImportPanel
+                    onImport={loadImportedRecords}
+                    onJsonFile={(text) => {
+                      setJsonData(text);
+                      loadManualData(text);
+                    }}
+                  />
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Données JSON
                   </label>
@@ -504,7 +812,7 @@ const fetchFromAPI = async (includeCategories = true) => {
                     className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono text-sm"
                   />
                   <button
-                    onClick={loadManualData}
+                    onClick={() => loadManualData()}
                     className="mt-2 w-full bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-700"
                   >
                     Charger les données
@@ -512,6 +820,17 @@ const fetchFromAPI = async (includeCategories = true) => {
                 </div>
               )}
 
+              {/* Rapport de validation */}
+              {validation && (validation.pending || validation.report.invalid.length > 0 || validation.report.normalized.length > 0) && (
+                <ValidationReportPanel
+                  key={`${validation.report.total}-${validation.snapshot?.id ?? 'manual'}`}
+                  report={validation.report}
+                  pending={validation.pending}
+                  onLoadValid={loadValidSubset}
+                  onDismiss={() => setValidation(null)}
+                />
+              )}
+
               {/* Filtres */}
               <div className="mb-6">
                 <button
@@ -536,7 +855,7 @@ const fetchFromAPI = async (includeCategories = true) => {
                         type="text"
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
-                        placeholder="Rechercher..."
+                        placeholder='Rechercher... (ex. : etat civil, cat:"état civil", name:passeport)'
                         className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                       />
                     </div>
@@ -558,14 +877,14 @@ const fetchFromAPI = async (includeCategories = true) => {
                     </div>
 
                     {/* Filtre par catégories */}
-                    {categories.length > 0 && (
+                    {categoryTree.length > 0 && (
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
                           Catégories ({selectedCategories.length} sélectionnée(s))
                         </label>
                         <div className="max-h-32 overflow-y-auto space-y-1">
-                          {categories.slice(0, 20).map(category => (
-                            <label key={category} className="flex items-center">
+                          {categoryTree.slice(0, 20).map(({ name: category, depth }) => (
+                            <label key={category} className="flex items-center" style={{ paddingLeft: depth * 16 }}>
                               <input
                                 type="checkbox"
                                 checked={selectedCategories.includes(category)}
@@ -591,18 +910,81 @@ const fetchFromAPI = async (includeCategories = true) => {
                             Effacer la sélection
                           </button>
                         )}
+                        <label className="mt-2 flex items-center text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={categoryMatch === 'descendants'}
+                            onChange={(e) => setCategoryMatch(e.target.checked ? 'descendants' : 'exact')}
+                            className="text-indigo-600 mr-2"
+                          />
+                          Inclure les sous-catégories
+                        </label>
+                      </div>
+                    )}
+
+                    {/* Filtre par institutions */}
+                    {institutionOptions.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Institutions ({selectedInstitutions.length} sélectionnée(s))
+                        </label>
+                        <div className="max-h-32 overflow-y-auto space-y-1">
+                          {institutionOptions.map(([id, label]) => (
+                            <label key={id} className="flex items-center">
+                              <input
+                                type="checkbox"
+                                checked={selectedInstitutions.includes(id)}
+                                onChange={(e) => {
+                                  if (e.target.checked) {
+                                    setSelectedInstitutions([...selectedInstitutions, id]);
+                                  } else {
+                                    setSelectedInstitutions(selectedInstitutions.filter(i => i !== id));
+                                  }
+                                }}
+                                className="text-indigo-600 mr-2"
+                              />
+                              <span className="text-sm">{label}</span>
+                              {label !== id && <span className="ml-1 text-xs text-gray-400 font-mono">{id}</span>}
+                            </label>
+                          ))}
+                        </div>
+                        {selectedInstitutions.length > 0 && (
+                          <button
+                            onClick={() => setSelectedInstitutions([])}
+                            className="mt-2 text-sm text-red-600 hover:text-red-700 flex items-center"
+                          >
+                            <Trash2 className="w-3 h-3 mr-1" />
+                            Effacer la sélection
+                          </button>
+                        )}
                       </div>
                     )}
+
+                    {/* Expression avancée */}
+                    <FilterExpressionBuilder
+                      expression={filterExpression}
+                      onChange={setFilterExpression}
+                      availableFields={availableKeys}
+                      categories={resolvedCategories}
+                    />
                   </div>
                 )}
               </div>
 
+              {/* Préréglages */}
+              <PresetManager
+                getSettings={getSettings}
+                onApply={applySettings}
+                examples={EXAMPLES}
+                onLoadExample={loadExample}
+              />
+
               {/* Mode de transformation */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-700 mb-3">
                   Mode de transformation
                 </label>
-                <div className="grid grid-cols-2 gap-2">
+                <div className="grid grid-cols-3 gap-2">
                   <button
                     onClick={() => setTransformMode('keys')}
                     className={`p-3 rounded-lg border-2 transition-all ${
@@ -623,6 +1005,17 @@ const fetchFromAPI = async (includeCategories = true) => {
                   >
                     Custom
                   </button>
+                  <button
+                    onClick={() => setTransformMode('pipeline')}
+                    className={`p-3 rounded-lg border-2 transition-all flex items-center justify-center ${
+                      transformMode === 'pipeline'
+                        ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <Workflow className="w-4 h-4 mr-1" />
+                    Pipeline
+                  </button>
                 </div>
               </div>
 
@@ -657,9 +1050,24 @@ const fetchFromAPI = async (includeCategories = true) => {
               {/* Schéma personnalisé */}
               {transformMode === 'custom' && (
                 <div className="mb-6">
+                  <div className="flex bg-gray-100 rounded-lg p-1 mb-3">
+                    {([['code', 'Code'], ['visual', 'Éditeur visuel']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setCustomEditor(mode)}
+                        className={`flex-1 px-3 py-1 text-sm font-medium rounded-md transition-all ${
+                          customEditor === mode
+                            ? 'bg-white text-gray-900 shadow-sm'
+                            : 'text-gray-600 hover:text-gray-900'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
                   <div className="flex items-center justify-between mb-2">
                     <label className="block text-sm font-medium text-gray-700">
-                      Code de transformation
+                      {customEditor === 'code' ? 'Code de transformation' : 'Schéma déclaratif'}
                     </label>
                     <select
                       value={selectedExample}
@@ -675,15 +1083,70 @@ const fetchFromAPI = async (includeCategories = true) => {
                       ))}
                     </select>
                   </div>
-                  <textarea
-                    value={customSchema}
-                    onChange={(e) => setCustomSchema(e.target.value)}
-                    placeholder="return DataUtils.formatServicesByKeys(services, ['name', 'id']);"
-                    className="w-full h-40 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono text-sm"
+                  {customEditor === 'visual' ? (
+                    <DeclarativeSchemaBuilder
+                      schema={declarativeSchema}
+                      onChange={setDeclarativeSchema}
+                      availableKeys={availableKeys}
+                    />
+                  ) : (
+                    <>
+                      <ScriptEditor
+                        value={customSchema}
+                        onChange={(value) => {
+                          setCustomSchema(value);
+                          setScriptError(null);
+                        }}
+                        placeholder="return DataUtils.formatServicesByKeys(services, ['name', 'id']);"
+                        errorLine={scriptError?.line}
+                        errorColumn={scriptError?.column}
+                      />
+                      <div className="mt-2 flex items-center text-xs text-gray-600">
+                        <label htmlFor="transform-timeout" className="mr-2">Délai maximal d&apos;exécution (s)</label>
+                        <input
+                          id="transform-timeout"
+                          type="number"
+                          min={1}
+                          max={120}
+                          value={transformTimeout}
+                          onChange={(e) => setTransformTimeout(Math.max(1, Number(e.target.value) || 1))}
+                          className="w-16 p-1 border border-gray-300 rounded"
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Pipeline d'étapes */}
+              {transformMode === 'pipeline' && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-3">
+                    Étapes du pipeline
+                  </label>
+                  <PipelineEditor
+                    pipeline={pipeline}
+                    onChange={setPipeline}
+                    services={pipelineInput}
+                    availableKeys={availableKeys}
+                    categories={resolvedCategories}
+                    runScript={runScriptInSandbox}
                   />
                 </div>
               )}
 
+              {/* Aperçu en direct */}
+              <label className="mb-3 flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={liveMode}
+                  onChange={(e) => setLiveMode(e.target.checked)}
+                  className="text-indigo-600 mr-2"
+                />
+                Aperçu en direct
+                <span className="ml-1 text-xs text-gray-500">({LIVE_SAMPLE_SIZE} premiers services)</span>
+              </label>
+
               {/* Bouton de traitement */}
               <button
                 onClick={processData}
@@ -703,6 +1166,16 @@ const fetchFromAPI = async (includeCategories = true) => {
                 )}
               </button>
 
+              {isLoading && (transformMode === 'pipeline' ? hasScriptSteps(pipeline) : transformMode === 'custom' && customEditor === 'code') && (
+                <button
+                  onClick={cancelTransform}
+                  className="mt-2 w-full py-2 px-4 rounded-lg border border-red-200 text-red-600 hover:bg-red-50 flex items-center justify-center text-sm"
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Annuler la transformation
+                </button>
+              )}
+
               {error && (
                 <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
                   <p className="text-red-600 text-sm">{error}</p>
@@ -718,34 +1191,69 @@ const fetchFromAPI = async (includeCategories = true) => {
                 <div className="flex items-center">
                   <FileText className="w-6 h-6 text-green-600 mr-3" />
                   <h2 className="text-xl font-semibold text-gray-900">Résultats</h2>
+                  {/* Onglets */}
+                  <div className="ml-4 flex bg-gray-100 rounded-lg p-1">
+                    <button
+                      onClick={() => setResultsTab('results')}
+                      className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
+                        resultsTab === 'results' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      Transformation
+                    </button>
+                    <button
+                      onClick={() => setResultsTab('dashboard')}
+                      className={`flex items-center px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
+                        resultsTab === 'dashboard' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      <BarChart3 className="w-4 h-4 mr-1" />
+                      Tableau de bord
+                    </button>
+                    <button
+                      onClick={() => setResultsTab('diff')}
+                      className={`flex items-center px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
+                        resultsTab === 'diff' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      <GitCompare className="w-4 h-4 mr-1" />
+                      Comparaison
+                    </button>
+                    <button
+                      onClick={() => setResultsTab('audit')}
+                      className={`flex items-center px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
+                        resultsTab === 'audit' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      <ClipboardCheck className="w-4 h-4 mr-1" />
+                      Qualité
+                    </button>
+                  </div>
                 </div>
                
-                {result && (
+                {resultsTab === 'results' && result && (
                   <div className="flex items-center space-x-2">
                     {/* Toggle view mode */}
                     <div className="flex bg-gray-100 rounded-lg p-1">
-                      <button
-                        onClick={() => setViewMode('json')}
-                        className={`px-3 py-2 text-sm font-medium rounded-md transition-all ${
-                          viewMode === 'json'
-                            ? 'bg-white text-gray-900 shadow-sm'
-                            : 'text-gray-600 hover:text-gray-900'
-                        }`}
-                      >
-                        <Code className="w-4 h-4 mr-1 inline" />
-                        JSON
-                      </button>
-                      <button
-                        onClick={() => setViewMode('table')}
-                        className={`px-3 py-2 text-sm font-medium rounded-md transition-all ${
-                          viewMode === 'table'
-                            ? 'bg-white text-gray-900 shadow-sm'
-                            : 'text-gray-600 hover:text-gray-900'
-                        }`}
-                      >
-                        <Eye className="w-4 h-4 mr-1 inline" />
-                        Table
-                      </button>
+                      {([
+                        ['json', Code, 'JSON'],
+                        ['tree', ListTree, 'Arbre'],
+                        ['table', Eye, 'Table'],
+                        ['compare', Columns2, 'Côte à côte'],
+                      ] as const).map(([mode, Icon, label]) => (
+                        <button
+                          key={mode}
+                          onClick={() => setViewMode(mode)}
+                          className={`px-3 py-2 text-sm font-medium rounded-md transition-all ${
+                            viewMode === mode
+                              ? 'bg-white text-gray-900 shadow-sm'
+                              : 'text-gray-600 hover:text-gray-900'
+                          }`}
+                        >
+                          <Icon className="w-4 h-4 mr-1 inline" />
+                          {label}
+                        </button>
+                      ))}
                     </div>
                    
                     {/* Actions */}
@@ -761,62 +1269,203 @@ const fetchFromAPI = async (includeCategories = true) => {
                       {copySuccess ? 'Copié!' : 'Copier'}
                     </button>
                    
-                    <button
-                      onClick={downloadCSV}
-                      className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-                    >
-                      <Download className="w-4 h-4 mr-1" />
-                      CSV
-                    </button>
+                    <div className="flex items-center bg-gray-100 rounded-lg">
+                      <select
+                        value={exportFormat}
+                        onChange={(e) => setExportFormat(e.target.value)}
+                        className="bg-transparent pl-2 py-2 text-sm font-medium text-gray-600 focus:outline-none"
+                        aria-label="Format d'export"
+                      >
+                        {listExporters().map(exporter => (
+                          <option key={exporter.id} value={exporter.id}>{exporter.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setShowExportOptions(!showExportOptions)}
+                        className={`p-2 text-gray-600 hover:text-gray-900 ${showExportOptions ? 'text-indigo-600' : ''}`}
+                        title="Options d'export"
+                      >
+                        <SlidersHorizontal className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={downloadExport}
+                        disabled={isExporting}
+                        className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                      >
+                        {isExporting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+                        Exporter
+                      </button>
+                    </div>
                   </div>
                 )}
               </div>
 
-              {result ? (
-                <div className="border border-gray-200 rounded-xl overflow-hidden">
-                  {viewMode === 'json' ? (
-                    <pre className="p-6 bg-gray-50 text-xs overflow-auto max-h-96 font-mono">
-                      <code>{JSON.stringify(result, null, 2)}</code>
-                    </pre>
-                  ) : (
-                    <div className="p-6 overflow-auto max-h-96">
-                      {renderTable()}
-                    </div>
+              {result && showExportOptions && (
+                <div className="mb-6 -mt-2 flex flex-wrap items-center gap-4 p-3 bg-gray-50 rounded-lg text-sm">
+                  <label className="flex items-center text-gray-600">
+                    Nom du fichier
+                    <input
+                      value={exportFilename}
+                      onChange={(e) => setExportFilename(e.target.value)}
+                      className="ml-2 p-1 border border-gray-300 rounded font-mono text-xs"
+                    />
+                    <span className="ml-1 text-xs text-gray-400">.{getExporter(exportFormat)?.extension}</span>
+                  </label>
+                  {getExporter(exportFormat)?.needsTableName && (
+                    <label className="flex items-center text-gray-600">
+                      Table
+                      <input
+                        value={exportTableName}
+                        onChange={(e) => setExportTableName(e.target.value)}
+                        className="ml-2 p-1 border border-gray-300 rounded font-mono text-xs"
+                      />
+                    </label>
                   )}
-                </div>
-              ) : (
-                <div className="border-2 border-dashed border-gray-300 rounded-xl p-12 text-center">
-                  <div className="w-16 h-16 mx-auto mb-4 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
-                    <FileText className="w-8 h-8 text-gray-500" />
-                  </div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">Aucun résultat</h3>
-                  <p className="text-gray-500 mb-4">
-                    Les résultats transformés apparaîtront ici après traitement
-                  </p>
-                  {services.length === 0 && (
-                    <p className="text-sm text-orange-600">
-                      Chargez d'abord des données depuis l'API ou en mode manuel
-                    </p>
+                  {exportFormat === 'csv' && (
+                    <>
+                      <label className="flex items-center text-gray-600">
+                        Séparateur
+                        <select
+                          value={csvOptions.delimiter}
+                          onChange={(e) => setCsvOptions({ ...csvOptions, delimiter: e.target.value })}
+                          className="ml-2 p-1 border border-gray-300 rounded text-xs"
+                        >
+                          <option value=",">Virgule (,)</option>
+                          <option value=";">Point-virgule (;) — Excel FR</option>
+                          <option value={'\t'}>Tabulation</option>
+                          <option value="|">Barre verticale (|)</option>
+                        </select>
+                      </label>
+                      <label className="flex items-center text-gray-600">
+                        Fin de ligne
+                        <select
+                          value={csvOptions.lineEnding}
+                          onChange={(e) => setCsvOptions({ ...csvOptions, lineEnding: e.target.value as '\r\n' | '\n' })}
+                          className="ml-2 p-1 border border-gray-300 rounded text-xs"
+                        >
+                          <option value={'\r\n'}>CRLF (Windows, RFC 4180)</option>
+                          <option value={'\n'}>LF (Unix)</option>
+                        </select>
+                      </label>
+                      <label className="flex items-center text-gray-600">
+                        Séparateur de liste
+                        <input
+                          value={csvOptions.arraySeparator}
+                          onChange={(e) => setCsvOptions({ ...csvOptions, arraySeparator: e.target.value })}
+                          className="ml-2 w-12 p-1 border border-gray-300 rounded font-mono text-xs"
+                        />
+                      </label>
+                      <label className="flex items-center text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={csvOptions.bom}
+                          onChange={(e) => setCsvOptions({ ...csvOptions, bom: e.target.checked })}
+                          className="text-indigo-600 mr-2"
+                        />
+                        BOM UTF-8 (accents dans Excel)
+                      </label>
+                      <label className="flex items-center text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={csvOptions.flatten}
+                          onChange={(e) => setCsvOptions({ ...csvOptions, flatten: e.target.checked })}
+                          className="text-indigo-600 mr-2"
+                        />
+                        Aplatir les objets imbriqués
+                      </label>
+                    </>
                   )}
                 </div>
               )}
 
-              {result && (
-                <div className="mt-6 flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                  <div className="text-sm text-gray-600">
-                    <span className="font-medium">
-                      {Array.isArray(result) ? result.length : 1} élément(s) transformé(s)
-                    </span>
-                    {Array.isArray(result) && result.length > 0 && (
-                      <span className="ml-4">
-                        {Object.keys(result[0]).length} propriété(s) par élément
+              {resultsTab === 'dashboard' ? (
+                <AnalyticsDashboard services={getFilteredServices()} taxonomy={taxonomy} onAddFilter={addDashboardFilter} />
+              ) : resultsTab === 'audit' ? (
+                <AuditPanel services={editedServices} normalized={normalizedRecords} />
+              ) : resultsTab === 'diff' ? (
+                <SnapshotDiffPanel currentServices={editedServices} snapshots={snapshots} onFetch={readCatalogueResponse} />
+              ) : (
+                <>
+                {livePreview && (
+                  <div className="mb-4 border border-indigo-200 rounded-xl overflow-hidden">
+                    <div className="flex items-center justify-between px-4 py-2 bg-indigo-50">
+                      <span className="flex items-center text-sm font-medium text-indigo-900">
+                        <Eye className="w-4 h-4 mr-2" />
+                        Aperçu en direct
                       </span>
+                      {livePreview.error ? (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-700">Erreur</span>
+                      ) : (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-indigo-100 text-indigo-700">
+                          {Array.isArray(livePreview.data) ? livePreview.data.length : 1} ligne(s) · échantillon de {livePreview.sampled}/{livePreview.total} service(s)
+                        </span>
+                      )}
+                    </div>
+                    {livePreview.error ? (
+                      <p className="px-4 py-3 text-sm text-red-600">{livePreview.error}</p>
+                    ) : viewMode === 'table' ? (
+                      <ResultsTable data={livePreview.data} />
+                    ) : (
+                      <pre className="p-4 bg-gray-50 text-xs overflow-auto max-h-64 font-mono">
+                        <code>{JSON.stringify(livePreview.data, null, 2)}</code>
+                      </pre>
                     )}
                   </div>
-                  <div className="text-xs text-gray-500">
-                    Dernière transformation: {new Date().toLocaleTimeString()}
+                )}
+
+                {(serviceEdits.done.length > 0 || serviceEdits.undone.length > 0) && (
+                  <ServiceEditsPanel services={services} target={patchTarget} history={serviceEdits} onChange={setServiceEdits} />
+                )}
+
+                {result ? (
+                  <div className="border border-gray-200 rounded-xl overflow-hidden">
+                    {viewMode === 'json' ? (
+                      <pre className="p-6 bg-gray-50 text-xs overflow-auto max-h-96 font-mono">
+                        <code>{JSON.stringify(shownResult, null, 2)}</code>
+                      </pre>
+                    ) : viewMode === 'tree' ? (
+                      <JsonInspector data={shownResult} />
+                    ) : viewMode === 'compare' ? (
+                      <SideBySideView services={resultServices} result={shownResult} />
+                    ) : (
+                      <ResultsTable data={shownResult} highlights={resultHighlights} editing={cellEditing} />
+                    )}
                   </div>
-                </div>
+                ) : (
+                  <div className="border-2 border-dashed border-gray-300 rounded-xl p-12 text-center">
+                    <div className="w-16 h-16 mx-auto mb-4 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
+                      <FileText className="w-8 h-8 text-gray-500" />
+                    </div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">Aucun résultat</h3>
+                    <p className="text-gray-500 mb-4">
+                      Les résultats transformés apparaîtront ici après traitement
+                    </p>
+                    {services.length === 0 && (
+                      <p className="text-sm text-orange-600">
+                        Chargez d'abord des données depuis l'API ou en mode manuel
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {result && (
+                  <div className="mt-6 flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                    <div className="text-sm text-gray-600">
+                      <span className="font-medium">
+                        {Array.isArray(result) ? result.length : 1} élément(s) transformé(s)
+                      </span>
+                      {Array.isArray(result) && result.length > 0 && (
+                        <span className="ml-4">
+                          {Object.keys(result[0]).length} propriété(s) par élément
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Dernière transformation: {new Date().toLocaleTimeString()}
+                    </div>
+                  </div>
+                )}
+                </>
               )}
             </div>
 
@@ -845,11 +1494,18 @@ const fetchFromAPI = async (includeCategories = true) => {
                 <h4 className="font-medium text-gray-900 mb-2">Fonctions disponibles</h4>
                 <div className="text-sm text-gray-600 space-y-1">
                   <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.formatServicesByKeys(services, keys)</code> - Extraction par clés</div>
-                  <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.filterByCategory(services, category)</code> - Filtrage par catégorie</div>
-                  <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.searchServices(services, query)</code> - Recherche textuelle</div>
-                  <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.groupByCategory(services)</code> - Groupement par catégorie</div>
+                  <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.filterByCategory(services, category)</code> - Filtrage par catégorie exacte et ses sous-catégories</div>
+                  <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.searchServices(services, query)</code> - Recherche classée par pertinence (sans accents, tolérante aux fautes, <code className="text-xs bg-gray-100 px-1 rounded">cat:</code>, <code className="text-xs bg-gray-100 px-1 rounded">name:</code>, « expressions »)</div>
+                  <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.filterByExpression(services, expression)</code> - Filtre booléen (<code className="text-xs bg-gray-100 px-1 rounded">cat = &quot;État civil&quot; AND NOT has:url</code>)</div>
+                  <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.groupByCategory(services)</code> - Groupement par catégorie (services repris dans les catégories parentes)</div>
+                  <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.groupByInstitution(services)</code> - Groupement par institution</div>
                   <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.getStats(services)</code> - Statistiques</div>
+                  <div className="text-xs text-gray-500">Les fonctions de catégories appliquent la taxonomie enregistrée ; un dernier argument <code className="text-xs bg-gray-100 px-1 rounded">taxonomy</code> la remplace.</div>
+                  <div><code className="text-xs bg-gray-100 px-1 rounded">DataUtils.getInstitutionStats(services)</code> - Statistiques par institution</div>
                 </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Dans l&apos;éditeur de code, <kbd className="px-1 bg-gray-100 rounded">Ctrl</kbd>+<kbd className="px-1 bg-gray-100 rounded">Espace</kbd> propose ces fonctions et les champs de <code className="bg-gray-100 px-1 rounded">Service</code> ; les erreurs de type sont soulignées avant l&apos;exécution.
+                </p>
               </div>
             </div>
           </div>
@@ -857,110 +1513,4 @@ const fetchFromAPI = async (includeCategories = true) => {
       </div>
     </div>
   );
-
-  // Fonction pour rendre le tableau
-  function renderTable() {
-    if (!result || !Array.isArray(result) || result.length === 0) return null;
-
-    const headers = Object.keys(result[0]);
-    const displayRows = result.slice(0, 50); // Limiter l'affichage
-
-    return (
-      <div className="overflow-x-auto">
-        <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
-            <tr>
-              {headers.map(header => (
-                <th
-                  key={header}
-                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200"
-                >
-                  {header}
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {displayRows.map((row: any, index: number) => (
-              <tr key={index} className="hover:bg-gray-50 transition-colors">
-                {headers.map(header => (
-                  <td key={header} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 border-b border-gray-100">
-                    {renderCellValue(row[header])}
-                  </td>
-                ))}
-              </tr>
-            ))}
-          </tbody>
-        </table>
-        {result.length > 50 && (
-          <div className="p-4 text-center text-sm text-gray-500 bg-gray-50">
-            Affichage de 50 résultats sur {result.length} au total
-          </div>
-        )}
-      </div>
-    );
-  }
-
-  // Fonction pour rendre les valeurs de cellule
-  function renderCellValue(value: any): React.ReactNode {
-    if (value === null || value === undefined) {
-      return <span className="text-gray-400 italic">null</span>;
-    }
-   
-    if (Array.isArray(value)) {
-      return (
-        <div className="flex flex-wrap gap-1">
-          {value.slice(0, 3).map((item, i) => (
-            <span key={i} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
-              {String(item)}
-            </span>
-          ))}
-          {value.length > 3 && (
-            <span className="text-xs text-gray-500">+{value.length - 3} autres</span>
-          )}
-        </div>
-      );
-    }
-   
-    if (typeof value === 'boolean') {
-      return (
-        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
-          value ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-        }`}>
-          {value ? 'Oui' : 'Non'}
-        </span>
-      );
-    }
-   
-    if (typeof value === 'object') {
-      return <span className="text-gray-600 text-xs font-mono">{JSON.stringify(value)}</span>;
-    }
-   
-    const stringValue = String(value);
-    if (stringValue.length > 100) {
-      return (
-        <div className="max-w-xs">
-          <div className="truncate" title={stringValue}>
-            {stringValue}
-          </div>
-        </div>
-      );
-    }
-   
-    // Détecter les URLs
-    if (typeof value === 'string' && (value.startsWith('http://') || value.startsWith('https://'))) {
-      return (
-        <a
-          href={value}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-blue-600 hover:text-blue-800 underline text-xs"
-        >
-          {value.length > 30 ? value.substring(0, 30) + '...' : value}
-        </a>
-      );
-    }
-   
-    return stringValue;
-  }
-}
\ No newline at end of file
+}
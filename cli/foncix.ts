@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import vm from 'vm';
+import { fetchCatalogue } from '../lib/catalogue';
+import { DataUtils } from '../lib/dataUtils';
+import { parseDeclarativeSchema } from '../lib/declarativeSchema';
+import { EXAMPLES, isExampleKey } from '../lib/examples';
+import { getExporter, listExporters } from '../lib/exporters';
+import { parseFilterExpression } from '../lib/filterExpression';
+import { applyMapping, detectImportFormat, guessMapping, mappingError, parseCsvTable, parseNdjson, parseXlsx, type TabularData } from '../lib/importers';
+import { parsePipeline } from '../lib/pipeline';
+import { DEFAULT_SETTINGS, parsePresetLibrary, type StatusFilter, type TransformFilters } from '../lib/presets';
+import {
+  applyTransformFilters, DEFAULT_TRANSFORM_TIMEOUT_MS, runTransform, transformSpecFromSettings, type ScriptRunner, type TransformSpec,
+} from '../lib/transformCore';
+import type { ServiceKeys } from '../lib/types';
+import { validateApiResponse } from '../lib/validation';
+
+// Interface en ligne de commande : filtrer et transformer le catalogue sans navigateur
+
+const HELP = `Utilisation : foncix transform [options]
+
+Entrée (une seule) :
+  --input <fichier>        JSON, CSV, XLSX ou NDJSON (« - » pour l'entrée standard, par défaut)
+  --api                    Catalogue du portail (SERVICE_PUBLIC_BASE_URL)
+
+Filtres :
+  --search <requête>       Recherche plein texte (cat:, name:, « expressions »)
+  --category <nom>         Catégorie (répétable)
+  --institution <id>       Institution (répétable)
+  --status <Actif|Inactif>
+  --filter <expression>    Expression booléenne (cat = Santé AND NOT has:url)
+
+Transformation (une seule) :
+  --keys <a,b,c>           Extraction par clés (défaut : ${DEFAULT_SETTINGS.selectedKeys.join(',')})
+  --preset <nom>           Exemple intégré (${Object.keys(EXAMPLES).join(', ')}) ou préréglage de --presets
+  --presets <fichier>      Bibliothèque de préréglages exportée depuis l'interface
+  --schema <fichier>       Schéma déclaratif JSON
+  --script <fichier>       Script JavaScript (corps de fonction recevant services et DataUtils)
+  --pipeline <fichier>     Pipeline d'étapes JSON exporté depuis l'interface
+  --timeout <ms>           Délai maximal du script (défaut : ${DEFAULT_TRANSFORM_TIMEOUT_MS})
+
+Sortie :
+  --format <format>        ${listExporters().map(exporter => exporter.id).join(', ')} (défaut : json)
+  --output <fichier>       Fichier de sortie (défaut : sortie standard)
+  --table <nom>            Nom de table pour le format sql (défaut : services)
+  --help                   Afficher cette aide
+`;
+
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const OPTIONS = {
+  input: { type: 'string' },
+  api: { type: 'boolean' },
+  search: { type: 'string' },
+  category: { type: 'string', multiple: true },
+  institution: { type: 'string', multiple: true },
+  status: { type: 'string' },
+  filter: { type: 'string' },
+  keys: { type: 'string' },
+  preset: { type: 'string' },
+  presets: { type: 'string' },
+  schema: { type: 'string' },
+  script: { type: 'string' },
+  pipeline: { type: 'string' },
+  timeout: { type: 'string' },
+  format: { type: 'string', default: 'json' },
+  output: { type: 'string' },
+  table: { type: 'string', default: 'services' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Données brutes de l'entrée (validées ensuite comme dans l'interface)
+async function readInput(options: CliOptions): Promise<unknown> {
+  if (options.api) {
+    if (options.input) throw new CliUsageError('--input et --api sont incompatibles');
+    return fetchCatalogue({ categories: true, eservices: true });
+  }
+
+  const input = options.input ?? '-';
+  if (input === '-') {
+    if (process.stdin.isTTY) throw new CliUsageError('Aucune entrée : utilisez --input, --api ou un tube');
+    return JSON.parse(await readStdin());
+  }
+
+  const format = detectImportFormat(input);
+  if (format === 'json') return JSON.parse(await fs.readFile(input, 'utf8'));
+
+  let table: TabularData;
+  const name = path.basename(input);
+  switch (format) {
+    case 'csv':
+      table = parseCsvTable(await fs.readFile(input, 'utf8'), name);
+      break;
+    case 'ndjson':
+      table = parseNdjson(await fs.readFile(input, 'utf8'), name);
+      break;
+    case 'xlsx': {
+      const buffer = await fs.readFile(input);
+      table = await parseXlsx(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer, name);
+      break;
+    }
+    default:
+      throw new CliUsageError(`Format de fichier non pris en charge: ${input}`);
+  }
+  const mapping = guessMapping(table.columns);
+  const problem = mappingError(mapping);
+  if (problem) throw new CliUsageError(`${name}: ${problem}`);
+  return applyMapping(table, mapping);
+}
+
+// Filtres et transformation : préréglage éventuel, surchargé par les options
+async function resolveTransform(options: CliOptions): Promise<{ filters: TransformFilters; spec: TransformSpec }> {
+  const chosen = ['keys', 'preset', 'schema', 'script', 'pipeline'].filter(key => options[key as keyof CliOptions] !== undefined);
+  if (chosen.length > 1) {
+    throw new CliUsageError(`Une seule transformation à la fois (--${chosen.join(', --')})`);
+  }
+
+  let filters: TransformFilters = structuredClone(DEFAULT_SETTINGS.filters);
+  let spec: TransformSpec = { mode: 'keys', keys: DEFAULT_SETTINGS.selectedKeys as ServiceKeys[] };
+
+  if (options.keys) {
+    spec = { mode: 'keys', keys: options.keys.split(',').map(key => key.trim()).filter(Boolean) as ServiceKeys[] };
+  } else if (options.schema) {
+    spec = { mode: 'declarative', schema: parseDeclarativeSchema(JSON.parse(await fs.readFile(options.schema, 'utf8'))) };
+  } else if (options.script) {
+    spec = { mode: 'script', code: await fs.readFile(options.script, 'utf8') };
+  } else if (options.pipeline) {
+    spec = { mode: 'pipeline', pipeline: parsePipeline(await fs.readFile(options.pipeline, 'utf8')) };
+  } else if (options.preset) {
+    if (options.presets) {
+      const presets = parsePresetLibrary(await fs.readFile(options.presets, 'utf8'));
+      const preset = presets.find(p => p.name === options.preset || p.id === options.preset);
+      if (!preset) throw new CliUsageError(`Préréglage introuvable: ${options.preset}`);
+      filters = preset.filters;
+      spec = transformSpecFromSettings(preset);
+    } else if (isExampleKey(options.preset)) {
+      spec = { mode: 'declarative', schema: EXAMPLES[options.preset].schema };
+    } else {
+      throw new CliUsageError(`Exemple inconnu: ${options.preset} (${Object.keys(EXAMPLES).join(', ')})`);
+    }
+  }
+
+  if (options.status !== undefined && options.status !== 'Actif' && options.status !== 'Inactif') {
+    throw new CliUsageError('--status attend Actif ou Inactif');
+  }
+
+  return {
+    filters: {
+      ...filters,
+      ...(options.search !== undefined && { searchQuery: options.search }),
+      ...(options.category && { selectedCategories: options.category }),
+      ...(options.institution && { selectedInstitutions: options.institution }),
+      ...(options.status && { statusFilter: options.status as StatusFilter }),
+      ...(options.filter !== undefined && { expression: parseFilterExpression(options.filter) }),
+    },
+    spec,
+  };
+}
+
+// Scripts locaux exécutés avec une confiance totale : le contexte vm borne le délai et
+// n'expose ni require ni process, mais ce n'est pas une isolation (this.constructor.constructor
+// rejoint le contexte de Node). N'exécuter que des scripts dont on connaît la provenance.
+function vmScriptRunner(timeoutMs: number): ScriptRunner {
+  return async (code, services) => {
+    const context = vm.createContext({ services, DataUtils });
+    try {
+      return await vm.runInContext(`(function () {\n${code}\n})()`, context, {
+        filename: 'foncix-transform.js',
+        lineOffset: -1,
+        timeout: timeoutMs,
+      });
+    } catch (err) {
+      // Les erreurs du script viennent d'un autre contexte : instanceof Error ne s'applique pas
+      throw new Error(`Erreur du script: ${(err as Error)?.message ?? String(err)}`);
+    }
+  };
+}
+
+async function toBuffer(content: BlobPart): Promise<Buffer> {
+  if (typeof content === 'string') return Buffer.from(content, 'utf8');
+  if (content instanceof ArrayBuffer) return Buffer.from(content);
+  if (ArrayBuffer.isView(content)) return Buffer.from(content.buffer, content.byteOffset, content.byteLength);
+  return Buffer.from(await content.arrayBuffer());
+}
+
+async function transform(options: CliOptions) {
+  const exporter = getExporter(options.format);
+  if (!exporter) {
+    throw new CliUsageError(`Format inconnu: ${options.format} (${listExporters().map(e => e.id).join(', ')})`);
+  }
+
+  const { filters, spec } = await resolveTransform(options);
+  const timeoutMs = options.timeout ? Number(options.timeout) : DEFAULT_TRANSFORM_TIMEOUT_MS;
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) throw new CliUsageError('--timeout attend un nombre de millisecondes');
+
+  const report = validateApiResponse(await readInput(options));
+  if (report.invalid.length > 0) {
+    console.error(`⚠️  ${report.invalid.length} enregistrement(s) rejeté(s) sur ${report.total}`);
+  }
+
+  const services = applyTransformFilters(report.valid, filters);
+  const data = await runTransform(services, spec, vmScriptRunner(timeoutMs));
+  const content = await toBuffer(await exporter.export({ data, services, tableName: options.table }));
+
+  if (options.output) {
+    await fs.writeFile(options.output, content);
+    console.error(`✅ ${services.length} service(s) transformé(s) → ${options.output}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  const [command = 'transform'] = positionals;
+
+  if (values.help) {
+    process.stdout.write(HELP);
+    return;
+  }
+  if (command !== 'transform') {
+    throw new CliUsageError(`Commande inconnue: ${command}`);
+  }
+  await transform(values);
+}
+
+main(process.argv.slice(2)).catch(err => {
+  console.error(`❌ ${err instanceof Error ? err.message : String(err)}`);
+  if (err instanceof CliUsageError || (err instanceof TypeError && 'code' in err)) {
+    console.error('Voir foncix --help');
+    process.exitCode = 2;
+  } else {
+    process.exitCode = 1;
+  }
+});
@@ -0,0 +1,119 @@
+import { DataUtils } from './dataUtils';
+import { institutionLabel } from './institutions';
+import type { FilterCondition, FilterNode } from './filterExpression';
+import { categoryDescendants, type CategoryTaxonomy } from './taxonomy';
+import type { Service } from './types';
+
+// Données des graphiques du tableau de bord (calculées sur les services filtrés)
+
+export interface ChartSegment {
+  key: string;
+  label: string;
+  count: number;
+  // Filtre correspondant, pour l'exploration des services
+  filter: FilterNode;
+}
+
+export interface ChartBar {
+  label: string;
+  total: number;
+  segments: ChartSegment[];
+}
+
+const EMPTY_LABEL = '(non renseigné)';
+
+const condition = (field: string, op: FilterCondition['op'], value?: string, extra: Partial<FilterCondition> = {}): FilterCondition =>
+  ({ type: 'condition', field, op, ...(value !== undefined ? { value } : {}), ...extra });
+
+const and = (...children: FilterNode[]): FilterNode => ({ type: 'group', combinator: 'and', children });
+
+// Égalité exacte, comme les regroupements : l'exploration retrouve le nombre affiché
+const sameAs = (field: string, value: string) => condition(field, 'equals', value, { exact: true });
+
+// Filtre d'une catégorie ; avec une taxonomie, ses sous-catégories comprises (comme son groupe)
+function inCategory(category: string, taxonomy?: CategoryTaxonomy): FilterNode {
+  const names = taxonomy ? categoryDescendants(taxonomy, category) : [category];
+  return names.length === 1
+    ? sameAs('categories', category)
+    : { type: 'group', combinator: 'or', children: names.map(name => sameAs('categories', name)) };
+}
+
+const byTotal = (a: ChartBar, b: ChartBar) => b.total - a.total || a.label.localeCompare(b.label, 'fr');
+
+// Services par catégorie (alias et catégories parentes selon la taxonomie)
+export function servicesPerCategory(services: Service[], taxonomy?: CategoryTaxonomy): ChartBar[] {
+  return Object.entries(DataUtils.groupByCategory(services, taxonomy))
+    .map(([category, group]) => ({
+      label: category,
+      total: group.length,
+      segments: [{ key: 'all', label: 'Services', count: group.length, filter: inCategory(category, taxonomy) }],
+    }))
+    .sort(byTotal);
+}
+
+// Actifs / inactifs par catégorie
+export function activityPerCategory(services: Service[], taxonomy?: CategoryTaxonomy): ChartBar[] {
+  return Object.entries(DataUtils.groupByCategory(services, taxonomy))
+    .map(([category, group]) => {
+      const { active } = DataUtils.getStats(group, taxonomy);
+      const categoryFilter = inCategory(category, taxonomy);
+      return {
+        label: category,
+        total: group.length,
+        segments: [
+          { key: 'active', label: 'Actifs', count: active, filter: and(categoryFilter, condition('isActive', 'equals', 'true')) },
+          { key: 'inactive', label: 'Inactifs', count: group.length - active, filter: and(categoryFilter, condition('isActive', 'equals', 'false')) },
+        ],
+      };
+    })
+    .sort(byTotal);
+}
+
+// Couverture en e-services (url) par institution
+export function urlCoveragePerInstitution(services: Service[]): ChartBar[] {
+  // Services sans institution regroupés à part
+  const groups: Record<string, Service[]> = { ...DataUtils.groupByInstitution(services) };
+  const unassigned = services.filter(service => !service.institutionId);
+  if (unassigned.length > 0) groups[''] = unassigned;
+
+  return Object.entries(groups)
+    .map(([institutionId, group]) => {
+      const { withUrl } = DataUtils.getStats(group);
+      const inInstitution = institutionId
+        ? sameAs('institutionId', institutionId)
+        : condition('institutionId', 'exists', undefined, { negate: true });
+      return {
+        label: institutionId ? institutionLabel(group[0]) : EMPTY_LABEL,
+        total: group.length,
+        segments: [
+          { key: 'withUrl', label: 'Avec e-service', count: withUrl, filter: and(inInstitution, condition('url', 'exists')) },
+          { key: 'withoutUrl', label: 'Sans e-service', count: group.length - withUrl, filter: and(inInstitution, condition('url', 'exists', undefined, { negate: true })) },
+        ],
+      };
+    })
+    .sort(byTotal);
+}
+
+// Tranches de longueur des descriptions (en mots)
+const LENGTH_BUCKETS: { label: string; min: number; max?: number }[] = [
+  { label: 'Vide', min: 0, max: 0 },
+  { label: '1 – 10 mots', min: 1, max: 10 },
+  { label: '11 – 25 mots', min: 11, max: 25 },
+  { label: '26 – 50 mots', min: 26, max: 50 },
+  { label: '51 – 100 mots', min: 51, max: 100 },
+  { label: 'Plus de 100 mots', min: 101 },
+];
+
+const wordCount = (text: string) => (text ?? '').split(/\s+/).filter(Boolean).length;
+
+export function descriptionLengthDistribution(services: Service[]): ChartBar[] {
+  const counts = services.map(service => wordCount(service.description));
+  return LENGTH_BUCKETS.map(({ label, min, max }) => {
+    const count = counts.filter(n => n >= min && (max === undefined || n <= max)).length;
+    const filter = and(
+      condition('description', 'gte', String(min), { measure: 'words' }),
+      ...(max !== undefined ? [condition('description', 'lte', String(max), { measure: 'words' })] : [])
+    );
+    return { label, total: count, segments: [{ key: 'all', label: 'Services', count, filter }] };
+  });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { CatalogueError } from './catalogue';
+import { PublicQueryError } from './publicApi';
+import type { ApiError, ApiErrorCode } from './types';
+
+// Réponses d'erreur typées pour les routes /api
+export function jsonError(code: ApiErrorCode, message: string, status: number) {
+  return NextResponse.json<ApiError>({ error: { code, message } }, { status });
+}
+
+export function handleRouteError(err: unknown, route: string) {
+  if (err instanceof CatalogueError) {
+    return jsonError(err.code, err.message, err.status);
+  }
+  if (err instanceof PublicQueryError) {
+    return jsonError('INVALID_PARAMETER', err.message, 400);
+  }
+  console.error(`Erreur inattendue ${route}:`, err);
+  return jsonError('UPSTREAM_UNREACHABLE', 'Erreur inconnue lors du chargement des données', 500);
+}
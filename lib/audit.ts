@@ -0,0 +1,270 @@
+import { writeCsv } from './csv';
+import { normalizeSearchText } from './search';
+import type { Service, ServiceKeys } from './types';
+import type { RecordReport } from './validation';
+
+// Audit de qualité du catalogue : règles configurables appliquées aux services chargés
+
+export type AuditSeverity = 'error' | 'warning' | 'info';
+
+export const AUDIT_SEVERITIES: AuditSeverity[] = ['error', 'warning', 'info'];
+
+export interface AuditViolation {
+  ruleId: string;
+  serviceId: string;
+  serviceName: string;
+  field: ServiceKeys;
+  message: string;
+}
+
+// Informations complémentaires sur le chargement (corrections de la validation)
+export interface AuditContext {
+  normalized?: RecordReport[];
+}
+
+interface RuleFinding {
+  service: Service;
+  message: string;
+}
+
+export interface AuditRule {
+  id: string;
+  label: string;
+  description: string;
+  field: ServiceKeys;
+  defaultSeverity: AuditSeverity;
+  check: (services: Service[], context: AuditContext) => RuleFinding[];
+}
+
+export interface AuditRuleConfig {
+  enabled: boolean;
+  severity: AuditSeverity;
+}
+
+export type AuditConfig = Record<string, AuditRuleConfig>;
+
+export interface AuditResult {
+  ruleId: string;
+  label: string;
+  severity: AuditSeverity;
+  violations: AuditViolation[];
+}
+
+export interface AuditReport {
+  generatedAt: string;
+  serviceCount: number;
+  results: AuditResult[];
+  totals: Record<AuditSeverity, number>;
+}
+
+const STORAGE_KEY = 'foncix.audit.v1';
+
+const normalizeLabel = (value: string) => normalizeSearchText(value).replace(/\s+/g, ' ').trim();
+
+// Regrouper les services par clé normalisée
+function groupBy(services: Service[], key: (service: Service) => string): Map<string, Service[]> {
+  const groups = new Map<string, Service[]>();
+  services.forEach(service => {
+    const value = key(service);
+    if (!value) return;
+    groups.set(value, [...(groups.get(value) ?? []), service]);
+  });
+  return groups;
+}
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+export const AUDIT_RULES: AuditRule[] = [
+  {
+    id: 'duplicate-name',
+    label: 'Noms en double',
+    description: 'Plusieurs services portent le même nom (casse et accents ignorés)',
+    field: 'name',
+    defaultSeverity: 'warning',
+    check: (services) => [...groupBy(services, service => normalizeLabel(service.name)).values()]
+      .filter(group => group.length > 1)
+      .flatMap(group => group.map(service => ({
+        service,
+        message: `Même nom que ${group.filter(other => other !== service).map(other => other.id).join(', ')}`,
+      }))),
+  },
+  {
+    id: 'status-mismatch',
+    label: 'Statut contradictoire',
+    description: 'Le statut ne correspond pas à isActive (ex. « Actif » avec isActive: false)',
+    field: 'status',
+    defaultSeverity: 'error',
+    check: (services, { normalized = [] }) => {
+      // Les contradictions des données source sont corrigées à la validation : on les relit dans le rapport,
+      // tant que le service garde les valeurs alignées (une correction de status ou isActive les remplace)
+      const conflicts = new Map(
+        normalized.filter(record => record.id && record.statusConflict).map(record => [record.id, record.statusConflict!])
+      );
+      return services.flatMap(service => {
+        const conflict = conflicts.get(service.id);
+        if (conflict && service.isActive === conflict.isActive && service.status === (conflict.isActive ? 'Actif' : 'Inactif')) {
+          return [{ service, message: `Statut « ${conflict.status} » avec isActive: ${conflict.isActive} dans les données source` }];
+        }
+        if ((service.status === 'Actif') !== service.isActive) {
+          return [{ service, message: `Statut « ${service.status} » avec isActive: ${service.isActive}` }];
+        }
+        return [];
+      });
+    },
+  },
+  {
+    id: 'empty-description',
+    label: 'Description vide',
+    description: 'Le service n\'a pas de description',
+    field: 'description',
+    defaultSeverity: 'warning',
+    check: (services) => services
+      .filter(service => !service.description?.trim())
+      .map(service => ({ service, message: 'Description vide' })),
+  },
+  {
+    id: 'invalid-url',
+    label: 'URL invalide',
+    description: 'L\'URL n\'est pas une adresse web valide',
+    field: 'url',
+    defaultSeverity: 'error',
+    check: (services) => services.flatMap(service => {
+      if (!service.url) return [];
+      const url = parseUrl(service.url);
+      return url && ['http:', 'https:'].includes(url.protocol)
+        ? []
+        : [{ service, message: `URL invalide : ${service.url}` }];
+    }),
+  },
+  {
+    id: 'insecure-url',
+    label: 'URL non HTTPS',
+    description: 'L\'URL utilise http:// au lieu de https://',
+    field: 'url',
+    defaultSeverity: 'warning',
+    check: (services) => services
+      .filter(service => service.url && parseUrl(service.url)?.protocol === 'http:')
+      .map(service => ({ service, message: `URL non sécurisée : ${service.url}` })),
+  },
+  {
+    id: 'missing-icon',
+    label: 'Icône manquante',
+    description: 'Le service n\'a pas d\'icône',
+    field: 'icon',
+    defaultSeverity: 'info',
+    check: (services) => services
+      .filter(service => !service.icon)
+      .map(service => ({ service, message: 'Icône manquante' })),
+  },
+  {
+    id: 'category-variants',
+    label: 'Catégories en plusieurs graphies',
+    description: 'Des catégories ne diffèrent que par la casse ou les accents',
+    field: 'categories',
+    defaultSeverity: 'warning',
+    check: (services) => {
+      // Occurrences de chaque graphie, regroupées par forme normalisée
+      const variants = new Map<string, Map<string, number>>();
+      services.forEach(service => service.categories.forEach(category => {
+        const key = normalizeLabel(category);
+        const counts = variants.get(key) ?? new Map<string, number>();
+        counts.set(category, (counts.get(category) ?? 0) + 1);
+        variants.set(key, counts);
+      }));
+
+      // La graphie la plus fréquente sert de référence
+      const preferred = new Map<string, string>();
+      variants.forEach((counts, key) => {
+        if (counts.size > 1) {
+          preferred.set(key, [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'fr'))[0][0]);
+        }
+      });
+
+      return services.flatMap(service => service.categories.flatMap(category => {
+        const reference = preferred.get(normalizeLabel(category));
+        return reference && reference !== category
+          ? [{ service, message: `Catégorie « ${category} » : graphie majoritaire « ${reference} »` }]
+          : [];
+      }));
+    },
+  },
+];
+
+export function defaultAuditConfig(): AuditConfig {
+  return Object.fromEntries(AUDIT_RULES.map(rule => [rule.id, { enabled: true, severity: rule.defaultSeverity }]));
+}
+
+// Configuration d'une règle (valeurs par défaut pour les règles absentes)
+export function ruleConfig(config: AuditConfig, rule: AuditRule): AuditRuleConfig {
+  return config[rule.id] ?? { enabled: true, severity: rule.defaultSeverity };
+}
+
+export function runAudit(services: Service[], config: AuditConfig = {}, context: AuditContext = {}): AuditReport {
+  const results = AUDIT_RULES
+    .filter(rule => ruleConfig(config, rule).enabled)
+    .map(rule => ({
+      ruleId: rule.id,
+      label: rule.label,
+      severity: ruleConfig(config, rule).severity,
+      violations: rule.check(services, context).map(({ service, message }) => ({
+        ruleId: rule.id,
+        serviceId: service.id,
+        serviceName: service.name,
+        field: rule.field,
+        message,
+      })),
+    }));
+
+  const totals = Object.fromEntries(AUDIT_SEVERITIES.map(severity => [severity, 0])) as Record<AuditSeverity, number>;
+  results.forEach(result => { totals[result.severity] += result.violations.length; });
+
+  return { generatedAt: new Date().toISOString(), serviceCount: services.length, results, totals };
+}
+
+export function auditToJson(report: AuditReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+// Une ligne par violation
+export function auditToCsv(report: AuditReport): string {
+  const rows = report.results.flatMap(result => result.violations.map(violation => ({
+    severity: result.severity,
+    rule: result.ruleId,
+    serviceId: violation.serviceId,
+    serviceName: violation.serviceName,
+    field: violation.field,
+    message: violation.message,
+  })));
+  return writeCsv(rows, { flatten: false });
+}
+
+export function loadAuditConfig(): AuditConfig {
+  if (typeof window === 'undefined') return defaultAuditConfig();
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : {};
+    const config = defaultAuditConfig();
+    AUDIT_RULES.forEach(rule => {
+      const entry = stored?.[rule.id];
+      if (!entry || typeof entry !== 'object') return;
+      config[rule.id] = {
+        enabled: typeof entry.enabled === 'boolean' ? entry.enabled : true,
+        severity: AUDIT_SEVERITIES.includes(entry.severity) ? entry.severity : rule.defaultSeverity,
+      };
+    });
+    return config;
+  } catch (err) {
+    console.error('Configuration d\'audit illisible:', err);
+    return defaultAuditConfig();
+  }
+}
+
+export function saveAuditConfig(config: AuditConfig) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
@@ -0,0 +1,156 @@
+import { parseInstitutions } from './institutions';
+import type { ApiErrorCode, ApiResponse, Institution } from './types';
+
+// Accès serveur au catalogue de service-public.bj
+
+const DEFAULT_UPSTREAM_BASE_URL = 'https://service-public.bj';
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export const CATALOGUE_PATH = '/api/portal/publicservices/';
+const DEFAULT_INSTITUTIONS_PATH = '/api/portal/institutions/';
+
+export interface CatalogueOptions {
+  categories?: boolean;
+  eservices?: boolean;
+}
+
+export class CatalogueError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly status = 502
+  ) {
+    super(message);
+    this.name = 'CatalogueError';
+  }
+}
+
+// URL de base configurable (ex. serveur de test local)
+export function getUpstreamBaseUrl(): string {
+  return (process.env.SERVICE_PUBLIC_BASE_URL || DEFAULT_UPSTREAM_BASE_URL).replace(/\/+$/, '');
+}
+
+export function buildCatalogueUrl(options: CatalogueOptions = {}): string {
+  const url = new URL(CATALOGUE_PATH, getUpstreamBaseUrl() + '/');
+  if (options.categories) url.searchParams.set('categories', 'true');
+  if (options.eservices) url.searchParams.set('eservices', 'true');
+  return url.toString();
+}
+
+// Chemin configurable de la liste des institutions
+export function buildInstitutionsUrl(): string {
+  const pathname = process.env.SERVICE_PUBLIC_INSTITUTIONS_PATH || DEFAULT_INSTITUTIONS_PATH;
+  return new URL(pathname, getUpstreamBaseUrl() + '/').toString();
+}
+
+// Vérifier la forme ApiResponse
+export function isApiResponse(data: unknown): data is ApiResponse {
+  if (!data || typeof data !== 'object') return false;
+  const { services, categories } = data as Record<string, unknown>;
+  if (!Array.isArray(services)) return false;
+  if (!services.every(s => s && typeof s === 'object' && typeof (s as Record<string, unknown>).id === 'string')) {
+    return false;
+  }
+  if (categories !== undefined && !(Array.isArray(categories) && categories.every(c => typeof c === 'string'))) {
+    return false;
+  }
+  return true;
+}
+
+export interface CatalogueValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export type CatalogueFetchResult =
+  | { status: 'ok'; data: ApiResponse; etag: string | null; lastModified: string | null }
+  | { status: 'not-modified' };
+
+function getTimeoutMs(): number {
+  return Number(process.env.SERVICE_PUBLIC_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+}
+
+// Requête vers le portail, erreurs réseau converties en CatalogueError
+async function fetchUpstream(url: string, headers: Record<string, string>): Promise<Response> {
+  const timeout = getTimeoutMs();
+  try {
+    return await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(timeout),
+      cache: 'no-store',
+    });
+  } catch (err) {
+    if (err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError')) {
+      throw new CatalogueError('UPSTREAM_TIMEOUT', `Le portail n'a pas répondu en ${timeout} ms`, 504);
+    }
+    throw new CatalogueError('UPSTREAM_UNREACHABLE', 'Impossible de joindre le portail service-public.bj');
+  }
+}
+
+// Requête conditionnelle (ETag / Last-Modified) vers le portail
+export async function requestCatalogue(
+  options: CatalogueOptions = {},
+  validators: CatalogueValidators = {}
+): Promise<CatalogueFetchResult> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const response = await fetchUpstream(buildCatalogueUrl(options), headers);
+
+  if (response.status === 304) {
+    return { status: 'not-modified' };
+  }
+
+  if (!response.ok) {
+    throw new CatalogueError('UPSTREAM_HTTP', `Erreur HTTP: ${response.status} - ${response.statusText}`);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new CatalogueError('INVALID_JSON', 'Les données reçues ne sont pas au format JSON valide');
+  }
+
+  if (!isApiResponse(data)) {
+    throw new CatalogueError('INVALID_SHAPE', 'Format de données invalide');
+  }
+
+  return {
+    status: 'ok',
+    data,
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  };
+}
+
+// Récupérer le catalogue depuis le portail
+export async function fetchCatalogue(options: CatalogueOptions = {}): Promise<ApiResponse> {
+  const result = await requestCatalogue(options);
+  if (result.status !== 'ok') {
+    throw new CatalogueError('UPSTREAM_HTTP', 'Réponse inattendue du portail');
+  }
+  return result.data;
+}
+
+// Récupérer les métadonnées des institutions depuis le portail
+export async function fetchInstitutions(): Promise<Institution[]> {
+  const response = await fetchUpstream(buildInstitutionsUrl(), { Accept: 'application/json' });
+  if (!response.ok) {
+    throw new CatalogueError('UPSTREAM_HTTP', `Erreur HTTP: ${response.status} - ${response.statusText}`);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new CatalogueError('INVALID_JSON', 'Les institutions reçues ne sont pas au format JSON valide');
+  }
+
+  try {
+    return parseInstitutions(data);
+  } catch (err) {
+    throw new CatalogueError('INVALID_SHAPE', err instanceof Error ? err.message : 'Format d\'institutions invalide');
+  }
+}
@@ -0,0 +1,165 @@
+// Écriture CSV conforme à la RFC 4180
+
+export interface CsvOptions {
+  // Séparateur de champs (« ; » pour Excel en français)
+  delimiter?: string;
+  // Préfixer d'un BOM UTF-8 pour qu'Excel détecte l'encodage
+  bom?: boolean;
+  lineEnding?: '\r\n' | '\n';
+  // Séparateur des éléments de tableau dans une cellule
+  arraySeparator?: string;
+  // Aplatir les objets imbriqués en colonnes « a.b.c »
+  flatten?: boolean;
+}
+
+export const DEFAULT_CSV_OPTIONS: Required<CsvOptions> = {
+  delimiter: ',',
+  bom: false,
+  lineEnding: '\r\n',
+  arraySeparator: '; ',
+  flatten: true,
+};
+
+const UTF8_BOM = '\uFEFF';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+// Aplatir un enregistrement : { a: { b: 1 } } -> { 'a.b': 1 }
+export function flattenRecord(record: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      Object.assign(flat, flattenRecord(value, path));
+    } else {
+      flat[path] = value;
+    }
+  });
+  return flat;
+}
+
+function formatValue(value: unknown, arraySeparator: string): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return value
+      .map(item => (item !== null && typeof item === 'object' ? JSON.stringify(item) : String(item ?? '')))
+      .join(arraySeparator);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Guillemets si le champ contient le séparateur, un guillemet, un saut de ligne ou des espaces de bord
+function quoteField(field: string, delimiter: string): string {
+  const needsQuotes = field.includes(delimiter)
+    || /["\r\n]/.test(field)
+    || field !== field.trim();
+  return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+// Union ordonnée des colonnes de toutes les lignes
+export function collectHeaders(rows: Record<string, unknown>[]): string[] {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => headers.add(key)));
+  return [...headers];
+}
+
+export function writeCsv(data: unknown[], options: CsvOptions = {}): string {
+  const { delimiter, bom, lineEnding, arraySeparator, flatten } = { ...DEFAULT_CSV_OPTIONS, ...options };
+  if (!data.length) return bom ? UTF8_BOM : '';
+
+  const rows = data.map(item => {
+    const record = isPlainObject(item) ? item : { value: item };
+    return flatten ? flattenRecord(record) : record;
+  });
+  const headers = collectHeaders(rows);
+
+  const lines = [
+    headers.map(header => quoteField(header, delimiter)).join(delimiter),
+    ...rows.map(row =>
+      headers.map(header => quoteField(formatValue(row[header], arraySeparator), delimiter)).join(delimiter)
+    ),
+  ];
+
+  return (bom ? UTF8_BOM : '') + lines.join(lineEnding) + lineEnding;
+}
+
+// Lecture CSV (RFC 4180) : champs entre guillemets, sauts de ligne dans les champs, CRLF/LF
+
+export interface CsvParseOptions {
+  // Séparateur ; détecté sur la première ligne si absent
+  delimiter?: string;
+}
+
+export function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n/) === -1 ? undefined : text.search(/\r?\n/));
+  const candidates = [',', ';', '\t', '|'];
+  let best = ',';
+  let bestCount = 0;
+  candidates.forEach(candidate => {
+    let count = 0;
+    let quoted = false;
+    for (const char of firstLine) {
+      if (char === '"') quoted = !quoted;
+      else if (char === candidate && !quoted) count++;
+    }
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+export function parseCsv(input: string, options: CsvParseOptions = {}): string[][] {
+  const text = input.startsWith(UTF8_BOM) ? input.slice(1) : input;
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = '';
+      i += delimiter.length - 1;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Ignorer les lignes entièrement vides
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
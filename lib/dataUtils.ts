@@ -0,0 +1,135 @@
+import { writeCsv, type CsvOptions } from './csv';
+import { filterServices, parseFilterExpression, type FilterNode } from './filterExpression';
+import { searchServices } from './search';
+import { categoryAncestors, categoryDescendants, resolveCategory, type CategoryTaxonomy } from './taxonomy';
+import type { Service, ServiceKeys } from './types';
+
+// Fonctions utilitaires étendues
+export const DataUtils = {
+  // Fonction de base pour sélectionner des clés
+  formatServicesByKeys<T extends ServiceKeys>(services: Service[], keys: T[]): Pick<Service, T>[] {
+    return services.map(service => {
+      const formattedService: Partial<Service> = {};
+      keys.forEach(key => {
+        if (key in service) {
+          formattedService[key] = service[key];
+        }
+      });
+      return formattedService as Pick<Service, T>;
+    });
+  },
+
+  // Filtrer par catégorie exacte ; avec une taxonomie, alias résolus et sous-catégories comprises
+  filterByCategory(services: Service[], category: string, taxonomy?: CategoryTaxonomy): Service[] {
+    if (taxonomy) {
+      const accepted = categoryDescendants(taxonomy, category);
+      return services.filter(service =>
+        service.categories.some(cat => accepted.includes(resolveCategory(taxonomy, cat)))
+      );
+    }
+    return services.filter(service => service.categories.includes(category));
+  },
+
+  // Filtrer par statut
+  filterByStatus(services: Service[], status: 'Actif' | 'Inactif' | 'all'): Service[] {
+    if (status === 'all') return services;
+    return services.filter(service => service.status === status);
+  },
+
+  // Recherche textuelle (sans accents, tolérante aux fautes, triée par pertinence)
+  // Syntaxe : "expression exacte", cat:..., name:..., desc:...
+  searchServices(services: Service[], query: string): Service[] {
+    return searchServices(services, query).hits.map(hit => hit.service);
+  },
+
+  // Filtrer par expression booléenne (texte ou objet) : 'cat = "État civil" AND NOT has:url'
+  filterByExpression(services: Service[], expression: string | FilterNode): Service[] {
+    return filterServices(services, typeof expression === 'string' ? parseFilterExpression(expression) : expression);
+  },
+
+  // Grouper par catégorie ; avec une taxonomie, alias résolus et services repris dans les catégories parentes
+  groupByCategory(services: Service[], taxonomy?: CategoryTaxonomy): Record<string, Service[]> {
+    const groups: Record<string, Service[]> = {};
+    services.forEach(service => {
+      const categories = taxonomy
+        ? new Set(service.categories.flatMap(cat => [resolveCategory(taxonomy, cat), ...categoryAncestors(taxonomy, cat)]))
+        : service.categories;
+      categories.forEach(category => {
+        if (!groups[category]) {
+          groups[category] = [];
+        }
+        groups[category].push(service);
+      });
+    });
+    return groups;
+  },
+
+  // Grouper par institution (clé : institutionId)
+  groupByInstitution(services: Service[]): Record<string, Service[]> {
+    const groups: Record<string, Service[]> = {};
+    services.forEach(service => {
+      if (!service.institutionId) return;
+      if (!groups[service.institutionId]) {
+        groups[service.institutionId] = [];
+      }
+      groups[service.institutionId].push(service);
+    });
+    return groups;
+  },
+
+  // Statistiques par institution, de la plus fournie à la moins fournie
+  getInstitutionStats(services: Service[]) {
+    return Object.entries(DataUtils.groupByInstitution(services))
+      .map(([institutionId, group]) => ({
+        institutionId,
+        institutionName: group[0].institutionName ?? null,
+        ...DataUtils.getStats(group)
+      }))
+      .sort((a, b) => b.total - a.total);
+  },
+
+  // Statistiques (catégories comptées après alias si une taxonomie est fournie)
+  getStats(services: Service[], taxonomy?: CategoryTaxonomy) {
+    const categories = services.flatMap(s => s.categories);
+    return {
+      total: services.length,
+      active: services.filter(s => s.isActive).length,
+      withUrl: services.filter(s => s.url).length,
+      categories: new Set(taxonomy ? categories.map(cat => resolveCategory(taxonomy, cat)) : categories).size
+    };
+  },
+
+  // Transformation avancée avec schéma
+  restructureServices<T extends Record<string, any>>(
+    services: Service[],
+    schema: { [K in keyof T]: ServiceKeys | ((service: Service) => T[K]) }
+  ): T[] {
+    return services.map(service => {
+      const result = {} as T;
+      Object.entries(schema).forEach(([key, mapper]) => {
+        if (typeof mapper === 'function') {
+          result[key as keyof T] = mapper(service);
+        } else {
+          result[key as keyof T] = service[mapper as ServiceKeys] as T[keyof T];
+        }
+      });
+      return result;
+    });
+  },
+
+  // Export vers CSV (RFC 4180 : union des colonnes, objets aplatis, options Excel)
+  exportToCSV(data: any[], options?: CsvOptions): string {
+    return writeCsv(data, options);
+  }
+};
+
+// DataUtils des scripts : les fonctions de catégories appliquent par défaut la taxonomie enregistrée
+export function dataUtilsWithTaxonomy(taxonomy: CategoryTaxonomy | undefined): typeof DataUtils {
+  if (!taxonomy) return DataUtils;
+  return {
+    ...DataUtils,
+    filterByCategory: (services, category, override = taxonomy) => DataUtils.filterByCategory(services, category, override),
+    groupByCategory: (services, override = taxonomy) => DataUtils.groupByCategory(services, override),
+    getStats: (services, override = taxonomy) => DataUtils.getStats(services, override),
+  };
+}
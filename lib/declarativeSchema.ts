@@ -0,0 +1,234 @@
+import { DataUtils } from './dataUtils';
+import type { Service, ServiceKeys } from './types';
+
+// Schéma de transformation déclaratif (sérialisable, sans eval)
+
+export type JsonValue = string | number | boolean | null;
+
+export type SchemaExpr =
+  // Chemin simple : 'name', 'categories.0'
+  | string
+  | { op: 'path'; path: string }
+  | { op: 'literal'; value: JsonValue }
+  | { op: 'join'; of: SchemaExpr; separator?: string }
+  | { op: 'substring'; of: SchemaExpr; start?: number; length?: number; suffix?: string }
+  | { op: 'count'; of: SchemaExpr; unit?: 'items' | 'words' | 'chars' }
+  | { op: 'default'; of: SchemaExpr; value: JsonValue }
+  | { op: 'exists'; of: SchemaExpr }
+  | { op: 'if'; when: SchemaCondition; then: SchemaExpr; else?: SchemaExpr };
+
+export type ConditionTest = 'truthy' | 'falsy' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt';
+
+export interface SchemaCondition {
+  test: ConditionTest;
+  of: SchemaExpr;
+  value?: JsonValue;
+}
+
+export interface SchemaField {
+  key: string;
+  value: SchemaExpr;
+}
+
+export interface DeclarativeSchema {
+  version: 1;
+  fields: SchemaField[];
+}
+
+export const SCHEMA_OPS = ['path', 'literal', 'join', 'substring', 'count', 'default', 'exists', 'if'] as const;
+export type SchemaOp = typeof SCHEMA_OPS[number];
+
+export const CONDITION_TESTS: ConditionTest[] = ['truthy', 'falsy', 'equals', 'notEquals', 'contains', 'gt', 'lt'];
+
+export const SERVICE_KEYS: ServiceKeys[] = [
+  'name', 'id', 'categories', 'description', 'status', 'isActive', 'institutionId', 'institutionName', 'icon', 'url'
+];
+
+export class SchemaError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export function emptySchema(): DeclarativeSchema {
+  return { version: 1, fields: [] };
+}
+
+// Lire une valeur par chemin pointé
+export function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, segment) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[segment];
+  }, source);
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Évaluer une expression pour un service
+export function evaluateExpr(expr: SchemaExpr, service: Service): unknown {
+  if (typeof expr === 'string') return getPath(service, expr);
+
+  switch (expr.op) {
+    case 'path':
+      return getPath(service, expr.path);
+    case 'literal':
+      return expr.value;
+    case 'join': {
+      const value = evaluateExpr(expr.of, service);
+      return Array.isArray(value) ? value.join(expr.separator ?? ', ') : value;
+    }
+    case 'substring': {
+      const value = evaluateExpr(expr.of, service);
+      if (isEmpty(value)) return value;
+      const start = expr.start ?? 0;
+      const text = String(value);
+      const part = expr.length === undefined ? text.substring(start) : text.substring(start, start + expr.length);
+      return part + (expr.suffix ?? '');
+    }
+    case 'count': {
+      const value = evaluateExpr(expr.of, service);
+      if (isEmpty(value)) return 0;
+      if (expr.unit === 'words') return String(value).trim().split(/\s+/).filter(Boolean).length;
+      if (expr.unit === 'chars') return String(value).length;
+      return Array.isArray(value) ? value.length : 1;
+    }
+    case 'default': {
+      const value = evaluateExpr(expr.of, service);
+      return isEmpty(value) ? expr.value : value;
+    }
+    case 'exists':
+      return !isEmpty(evaluateExpr(expr.of, service));
+    case 'if':
+      return evaluateCondition(expr.when, service)
+        ? evaluateExpr(expr.then, service)
+        : expr.else === undefined ? null : evaluateExpr(expr.else, service);
+  }
+}
+
+export function evaluateCondition(condition: SchemaCondition, service: Service): boolean {
+  const value = evaluateExpr(condition.of, service);
+  switch (condition.test) {
+    case 'truthy':
+      return Array.isArray(value) ? value.length > 0 : !!value;
+    case 'falsy':
+      return Array.isArray(value) ? value.length === 0 : !value;
+    case 'equals':
+      return value === condition.value;
+    case 'notEquals':
+      return value !== condition.value;
+    case 'contains':
+      return Array.isArray(value)
+        ? value.includes(condition.value)
+        : String(value ?? '').toLowerCase().includes(String(condition.value ?? '').toLowerCase());
+    case 'gt':
+      return Number(value) > Number(condition.value);
+    case 'lt':
+      return Number(value) < Number(condition.value);
+  }
+}
+
+// Appliquer le schéma via restructureServices
+export function applyDeclarativeSchema(services: Service[], schema: DeclarativeSchema): Record<string, unknown>[] {
+  const mapping: Record<string, ServiceKeys | ((service: Service) => unknown)> = {};
+  schema.fields.forEach(({ key, value }) => {
+    mapping[key] = typeof value === 'string' && (SERVICE_KEYS as string[]).includes(value)
+      ? value as ServiceKeys
+      : (service: Service) => evaluateExpr(value, service);
+  });
+  return DataUtils.restructureServices<Record<string, unknown>>(services, mapping);
+}
+
+const isJsonValue = (value: unknown): value is JsonValue =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+function checkExpr(expr: unknown, path: string): SchemaExpr {
+  if (typeof expr === 'string') {
+    if (!expr.trim()) throw new SchemaError(path, 'chemin vide');
+    return expr;
+  }
+  if (!expr || typeof expr !== 'object') {
+    throw new SchemaError(path, 'expression attendue (chemin ou objet { op })');
+  }
+
+  const node = expr as Record<string, unknown>;
+  const op = node.op as SchemaOp;
+  const optionalNumber = (key: string) => {
+    if (node[key] !== undefined && typeof node[key] !== 'number') {
+      throw new SchemaError(`${path}.${key}`, 'nombre attendu');
+    }
+  };
+
+  switch (op) {
+    case 'path':
+      if (typeof node.path !== 'string' || !node.path) throw new SchemaError(`${path}.path`, 'chemin attendu');
+      break;
+    case 'literal':
+    case 'default':
+      if (!isJsonValue(node.value)) throw new SchemaError(`${path}.value`, 'valeur simple attendue');
+      if (op === 'default') checkExpr(node.of, `${path}.of`);
+      break;
+    case 'join':
+      if (node.separator !== undefined && typeof node.separator !== 'string') {
+        throw new SchemaError(`${path}.separator`, 'texte attendu');
+      }
+      checkExpr(node.of, `${path}.of`);
+      break;
+    case 'substring':
+      optionalNumber('start');
+      optionalNumber('length');
+      if (node.suffix !== undefined && typeof node.suffix !== 'string') {
+        throw new SchemaError(`${path}.suffix`, 'texte attendu');
+      }
+      checkExpr(node.of, `${path}.of`);
+      break;
+    case 'count':
+      if (node.unit !== undefined && !['items', 'words', 'chars'].includes(node.unit as string)) {
+        throw new SchemaError(`${path}.unit`, 'items, words ou chars attendu');
+      }
+      checkExpr(node.of, `${path}.of`);
+      break;
+    case 'exists':
+      checkExpr(node.of, `${path}.of`);
+      break;
+    case 'if': {
+      const when = node.when as Record<string, unknown> | undefined;
+      if (!when || !CONDITION_TESTS.includes(when.test as ConditionTest)) {
+        throw new SchemaError(`${path}.when.test`, `test inconnu (${CONDITION_TESTS.join(', ')})`);
+      }
+      if (when.value !== undefined && !isJsonValue(when.value)) {
+        throw new SchemaError(`${path}.when.value`, 'valeur simple attendue');
+      }
+      checkExpr(when.of, `${path}.when.of`);
+      checkExpr(node.then, `${path}.then`);
+      if (node.else !== undefined) checkExpr(node.else, `${path}.else`);
+      break;
+    }
+    default:
+      throw new SchemaError(`${path}.op`, `opération inconnue "${String(node.op)}"`);
+  }
+  return expr as SchemaExpr;
+}
+
+// Vérifier un schéma issu de JSON (import, saisie, URL...)
+export function parseDeclarativeSchema(input: unknown): DeclarativeSchema {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!data || typeof data !== 'object' || !Array.isArray((data as DeclarativeSchema).fields)) {
+    throw new SchemaError('schema', 'objet { version: 1, fields: [...] } attendu');
+  }
+
+  const keys = new Set<string>();
+  const fields = (data as DeclarativeSchema).fields.map((field, i) => {
+    const path = `fields[${i}]`;
+    if (!field || typeof field.key !== 'string' || !field.key.trim()) {
+      throw new SchemaError(`${path}.key`, 'nom de champ attendu');
+    }
+    if (keys.has(field.key)) {
+      throw new SchemaError(`${path}.key`, `champ "${field.key}" en double`);
+    }
+    keys.add(field.key);
+    return { key: field.key, value: checkExpr(field.value, `${path}.value`) };
+  });
+
+  return { version: 1, fields };
+}
@@ -0,0 +1,104 @@
+import type { DeclarativeSchema } from './declarativeSchema';
+
+// Exemples de transformation prêts à utiliser (page et CLI)
+
+export interface TransformExample {
+  title: string;
+  description: string;
+  // Script équivalent (mode code) : même résultat que le schéma, descriptions vides comprises
+  code: string;
+  schema: DeclarativeSchema;
+}
+
+export const EXAMPLES = {
+  basicSelection: {
+    title: "Sélection basique",
+    description: "Extraire nom, ID et statut",
+    code: `return DataUtils.formatServicesByKeys(services, ['name', 'id', 'status']);`,
+    schema: {
+      version: 1,
+      fields: [
+        { key: 'name', value: 'name' },
+        { key: 'id', value: 'id' },
+        { key: 'status', value: 'status' }
+      ]
+    }
+  },
+  cardFormat: {
+    title: "Format carte",
+    description: "Créer des cartes pour l'affichage",
+    code: `return DataUtils.restructureServices(services, {
+  id: 'id',
+  title: 'name',
+  summary: (s) => s.description && s.description.substring(0, 100) + '...',
+  isOnline: (s) => !!s.url,
+  badgeCount: (s) => s.categories.length,
+  statusColor: (s) => s.isActive ? 'green' : 'red'
+});`,
+    schema: {
+      version: 1,
+      fields: [
+        { key: 'id', value: 'id' },
+        { key: 'title', value: 'name' },
+        { key: 'summary', value: { op: 'substring', of: 'description', start: 0, length: 100, suffix: '...' } },
+        { key: 'isOnline', value: { op: 'exists', of: 'url' } },
+        { key: 'badgeCount', value: { op: 'count', of: 'categories' } },
+        { key: 'statusColor', value: { op: 'if', when: { test: 'truthy', of: 'isActive' }, then: { op: 'literal', value: 'green' }, else: { op: 'literal', value: 'red' } } }
+      ]
+    }
+  },
+  analytics: {
+    title: "Format analytique",
+    description: "Données pour dashboard",
+    code: `return DataUtils.restructureServices(services, {
+  serviceId: 'id',
+  serviceName: 'name',
+  categoryCount: (s) => s.categories.length,
+  hasWebAccess: (s) => !!s.url,
+  primaryCategory: (s) => s.categories[0] || 'Non classé',
+  wordCount: (s) => s.description.split(/\s+/).filter(Boolean).length,
+  institutionCode: 'institutionId'
+});`,
+    schema: {
+      version: 1,
+      fields: [
+        { key: 'serviceId', value: 'id' },
+        { key: 'serviceName', value: 'name' },
+        { key: 'categoryCount', value: { op: 'count', of: 'categories' } },
+        { key: 'hasWebAccess', value: { op: 'exists', of: 'url' } },
+        { key: 'primaryCategory', value: { op: 'default', of: 'categories.0', value: 'Non classé' } },
+        { key: 'wordCount', value: { op: 'count', of: 'description', unit: 'words' } },
+        { key: 'institutionCode', value: 'institutionId' }
+      ]
+    }
+  },
+  export: {
+    title: "Format d'export",
+    description: "Données simplifiées pour export",
+    code: `return DataUtils.restructureServices(services, {
+  'Nom du service': 'name',
+  'Identifiant': 'id',
+  'Catégories': (s) => s.categories.join(', '),
+  'Description courte': (s) => s.description.substring(0, 150),
+  'Actif': (s) => s.isActive ? 'Oui' : 'Non',
+  'URL': (s) => s.url || 'Non disponible'
+});`,
+    schema: {
+      version: 1,
+      fields: [
+        { key: 'Nom du service', value: 'name' },
+        { key: 'Identifiant', value: 'id' },
+        { key: 'Catégories', value: { op: 'join', of: 'categories', separator: ', ' } },
+        { key: 'Description courte', value: { op: 'substring', of: 'description', start: 0, length: 150 } },
+        { key: 'Actif', value: { op: 'if', when: { test: 'truthy', of: 'isActive' }, then: { op: 'literal', value: 'Oui' }, else: { op: 'literal', value: 'Non' } } },
+        { key: 'URL', value: { op: 'default', of: 'url', value: 'Non disponible' } }
+      ]
+    }
+  }
+} satisfies Record<string, TransformExample>;
+
+export type ExampleKey = keyof typeof EXAMPLES;
+
+export function isExampleKey(key: string): key is ExampleKey {
+  return Object.prototype.hasOwnProperty.call(EXAMPLES, key);
+}
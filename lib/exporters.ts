@@ -0,0 +1,205 @@
+import { collectHeaders, type CsvOptions } from './csv';
+import { DataUtils } from './dataUtils';
+import type { CategoryTaxonomy } from './taxonomy';
+import type { Service } from './types';
+
+// Registre des formats d'export des résultats
+
+export interface ExportContext {
+  // Résultat de la transformation
+  data: unknown;
+  // Services source de la transformation (même ordre que data lorsqu'il s'agit d'un tableau 1:1)
+  services: Service[];
+  tableName: string;
+  csvOptions?: CsvOptions;
+  // Taxonomie des catégories (feuilles par catégorie de l'export XLSX)
+  taxonomy?: CategoryTaxonomy;
+}
+
+export interface Exporter {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  // Le format utilise-t-il un nom de table (SQL) ?
+  needsTableName?: boolean;
+  export(context: ExportContext): BlobPart | Promise<BlobPart>;
+}
+
+const exporters = new Map<string, Exporter>();
+
+export function registerExporter(exporter: Exporter) {
+  exporters.set(exporter.id, exporter);
+}
+
+export function getExporter(id: string): Exporter | undefined {
+  return exporters.get(id);
+}
+
+export function listExporters(): Exporter[] {
+  return [...exporters.values()];
+}
+
+export function buildExportFilename(filename: string, exporter: Exporter): string {
+  const base = filename.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'transformed_data';
+  return base.toLowerCase().endsWith(`.${exporter.extension}`) ? base : `${base}.${exporter.extension}`;
+}
+
+// Résultat sous forme de lignes
+export function toRows(data: unknown): Record<string, unknown>[] {
+  const list = Array.isArray(data) ? data : data === null || data === undefined ? [] : [data];
+  return list.map(item => (item && typeof item === 'object' && !Array.isArray(item) ? item : { value: item }));
+}
+
+registerExporter({
+  id: 'csv',
+  label: 'CSV',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8',
+  export: ({ data, csvOptions }) => DataUtils.exportToCSV(toRows(data), csvOptions),
+});
+
+registerExporter({
+  id: 'json',
+  label: 'JSON',
+  extension: 'json',
+  mimeType: 'application/json',
+  export: ({ data }) => JSON.stringify(data, null, 2),
+});
+
+registerExporter({
+  id: 'ndjson',
+  label: 'NDJSON',
+  extension: 'ndjson',
+  mimeType: 'application/x-ndjson',
+  export: ({ data }) => {
+    const items = Array.isArray(data) ? data : [data];
+    return items.map(item => JSON.stringify(item)).join('\n') + '\n';
+  },
+});
+
+// XML : noms d'élément valides, sinon <field name="...">
+const XML_NAME = /^[A-Za-z_][\w.-]*$/;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toXml(name: string, value: unknown, indent: string): string {
+  const valid = XML_NAME.test(name) && !/^xml/i.test(name);
+  const open = valid ? name : `field name="${escapeXml(name)}"`;
+  const close = valid ? name : 'field';
+
+  if (value === null || value === undefined) {
+    return `${indent}<${open} nil="true"/>`;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(item => toXml('item', item, indent + '  ')).join('\n');
+    return items ? `${indent}<${open}>\n${items}\n${indent}</${close}>` : `${indent}<${open}/>`;
+  }
+  if (typeof value === 'object') {
+    const children = Object.entries(value).map(([key, child]) => toXml(key, child, indent + '  ')).join('\n');
+    return children ? `${indent}<${open}>\n${children}\n${indent}</${close}>` : `${indent}<${open}/>`;
+  }
+  return `${indent}<${open}>${escapeXml(String(value))}</${close}>`;
+}
+
+registerExporter({
+  id: 'xml',
+  label: 'XML',
+  extension: 'xml',
+  mimeType: 'application/xml',
+  export: ({ data }) => {
+    const records = toRows(data).map(row => toXml('record', row, '  ')).join('\n');
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<records>\n${records}\n</records>\n`;
+  },
+});
+
+// SQL : une instruction INSERT par ligne
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+function toSqlValue(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+registerExporter({
+  id: 'sql',
+  label: 'SQL (INSERT)',
+  extension: 'sql',
+  mimeType: 'application/sql',
+  needsTableName: true,
+  export: ({ data, tableName }) => {
+    const rows = toRows(data);
+    const columns = collectHeaders(rows);
+    const table = tableName.split('.').map(part => quoteIdentifier(part.trim())).join('.');
+    const columnList = columns.map(quoteIdentifier).join(', ');
+    return rows
+      .map(row => `INSERT INTO ${table} (${columnList}) VALUES (${columns.map(c => toSqlValue(row[c])).join(', ')});`)
+      .join('\n') + '\n';
+  },
+});
+
+// XLSX : une feuille « Tous » puis une feuille par catégorie
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Feuille';
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function toCellValue(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v))).join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as string | number | boolean;
+}
+
+registerExporter({
+  id: 'xlsx',
+  label: 'Excel (XLSX)',
+  extension: 'xlsx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  export: async ({ data, services, taxonomy }) => {
+    const { default: ExcelJS } = await import('exceljs');
+    const workbook = new ExcelJS.Workbook();
+    const rows = toRows(data);
+    const columns = collectHeaders(rows);
+    const used = new Set<string>();
+
+    const addSheet = (name: string, sheetRows: Record<string, unknown>[]) => {
+      const sheet = workbook.addWorksheet(sheetName(name, used));
+      sheet.columns = columns.map(column => ({ header: column, key: column, width: Math.min(Math.max(column.length + 2, 12), 60) }));
+      sheet.getRow(1).font = { bold: true };
+      sheetRows.forEach(row => {
+        sheet.addRow(Object.fromEntries(columns.map(column => [column, toCellValue(row[column])])));
+      });
+    };
+
+    addSheet('Tous', rows);
+
+    // Le regroupement n'est possible que si chaque ligne correspond à un service source
+    if (Array.isArray(data) && data.length === services.length) {
+      const rowIndex = new Map(services.map((service, i) => [service, i]));
+      Object.entries(DataUtils.groupByCategory(services, taxonomy))
+        .sort(([a], [b]) => a.localeCompare(b, 'fr'))
+        .forEach(([category, group]) => {
+          addSheet(category, group.map(service => rows[rowIndex.get(service)!]));
+        });
+    }
+
+    return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+  },
+});
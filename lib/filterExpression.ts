@@ -0,0 +1,400 @@
+import { normalizeSearchText } from './search';
+import type { Service } from './types';
+
+// Expressions de filtre booléennes (ET / OU / NON) sur les champs des services
+
+export type FilterOperator = 'equals' | 'notEquals' | 'contains' | 'exists' | 'gt' | 'gte' | 'lt' | 'lte';
+
+// Mesure appliquée au champ avant comparaison
+export type FilterMeasure = 'value' | 'length' | 'words';
+
+export interface FilterCondition {
+  type: 'condition';
+  // Champ ou chemin pointé (ex. categories, url)
+  field: string;
+  measure?: FilterMeasure;
+  op: FilterOperator;
+  value?: string;
+  // equals / notEquals : comparaison exacte (casse et accents compris), comme les regroupements
+  exact?: boolean;
+  negate?: boolean;
+}
+
+export interface FilterGroup {
+  type: 'group';
+  combinator: 'and' | 'or';
+  children: FilterNode[];
+  negate?: boolean;
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export const FILTER_OPERATORS: FilterOperator[] = ['equals', 'notEquals', 'contains', 'exists', 'gt', 'gte', 'lt', 'lte'];
+export const FILTER_MEASURES: FilterMeasure[] = ['value', 'length', 'words'];
+
+// Syntaxe texte des opérateurs
+// (== et !== : comparaison exacte)
+const OPERATOR_SYMBOLS: Record<Exclude<FilterOperator, 'exists'>, string> = {
+  equals: '=',
+  notEquals: '!=',
+  contains: '~',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  cat: 'categories',
+  categorie: 'categories',
+  nom: 'name',
+  desc: 'description',
+  statut: 'status',
+  actif: 'isActive',
+  institution: 'institutionId',
+  lien: 'url',
+};
+
+const MEASURE_ALIASES: Record<string, FilterMeasure> = {
+  length: 'length',
+  longueur: 'length',
+  count: 'length',
+  words: 'words',
+  mots: 'words',
+};
+
+const KEYWORDS: Record<string, 'and' | 'or' | 'not'> = {
+  and: 'and',
+  et: 'and',
+  or: 'or',
+  ou: 'or',
+  not: 'not',
+  non: 'not',
+};
+
+export class FilterExpressionError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position === undefined ? message : `${message} (position ${position + 1})`);
+    this.name = 'FilterExpressionError';
+  }
+}
+
+export function isExactOperator(op: FilterOperator): boolean {
+  return op === 'equals' || op === 'notEquals';
+}
+
+export function emptyFilter(): FilterGroup {
+  return { type: 'group', combinator: 'and', children: [] };
+}
+
+export function isEmptyFilter(node: FilterNode): boolean {
+  return node.type === 'group' && node.children.every(isEmptyFilter);
+}
+
+function readField(service: Service, field: string): unknown {
+  return field.split('.').reduce<unknown>((value, segment) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[segment];
+  }, service);
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+function measureValue(value: unknown, measure: FilterMeasure = 'value'): unknown {
+  if (measure === 'value') return value;
+  if (value === null || value === undefined) return 0;
+  if (Array.isArray(value)) {
+    return measure === 'length' ? value.length : value.reduce((sum, item) => sum + countWords(String(item ?? '')), 0);
+  }
+  const text = String(value);
+  return measure === 'length' ? text.length : countWords(text);
+}
+
+const normalize = (value: unknown) => normalizeSearchText(String(value ?? '')).trim();
+
+function matchesScalar(value: unknown, op: FilterOperator, target: string, exact = false): boolean {
+  switch (op) {
+    case 'equals':
+      return exact ? String(value ?? '') === target : normalize(value) === normalize(target);
+    case 'contains':
+      return normalize(value).includes(normalize(target));
+    default: {
+      const a = typeof value === 'number' ? value : Number(value);
+      const b = Number(target);
+      if (value === null || value === '' || target.trim() === '' || isNaN(a) || isNaN(b)) return false;
+      if (op === 'gt') return a > b;
+      if (op === 'gte') return a >= b;
+      if (op === 'lt') return a < b;
+      return a <= b;
+    }
+  }
+}
+
+function evaluateCondition(condition: FilterCondition, service: Service): boolean {
+  const value = measureValue(readField(service, condition.field), condition.measure);
+  const target = condition.value ?? '';
+
+  switch (condition.op) {
+    case 'exists':
+      return value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+    case 'notEquals':
+      return !(Array.isArray(value)
+        ? value.some(item => matchesScalar(item, 'equals', target, condition.exact))
+        : matchesScalar(value, 'equals', target, condition.exact));
+    default:
+      // Tableaux : au moins un élément correspond
+      return Array.isArray(value)
+        ? value.some(item => matchesScalar(item, condition.op, target, condition.exact))
+        : matchesScalar(value, condition.op, target, condition.exact);
+  }
+}
+
+export function evaluateFilter(node: FilterNode, service: Service): boolean {
+  let matches: boolean;
+  if (node.type === 'condition') {
+    matches = evaluateCondition(node, service);
+  } else {
+    // Les groupes vides sont ignorés
+    const children = node.children.filter(child => !isEmptyFilter(child));
+    matches = children.length === 0
+      || (node.combinator === 'and'
+        ? children.every(child => evaluateFilter(child, service))
+        : children.some(child => evaluateFilter(child, service)));
+  }
+  return node.negate ? !matches : matches;
+}
+
+export function filterServices(services: Service[], node: FilterNode): Service[] {
+  if (isEmptyFilter(node)) return services;
+  return services.filter(service => evaluateFilter(node, service));
+}
+
+// Syntaxe texte :
+//   cat = "État civil" AND NOT cat = Justice
+//   (has:url OR institution = ANTS) AND words(description) < 20
+//   cat == "Santé" (comparaison exacte)
+type Token =
+  | { kind: 'lparen' | 'rparen'; position: number }
+  | { kind: 'op'; value: string; position: number }
+  | { kind: 'string' | 'word'; value: string; position: number };
+
+const WORD_PATTERN = /[^\s()"=!~:<>]+/y;
+const OP_PATTERN = /!==|==|!=|>=|<=|=|~|:|>|</y;
+
+function tokenizeExpression(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') {
+        if (text[j] === '\\' && j + 1 < text.length) j++;
+        value += text[j];
+        j++;
+      }
+      if (j >= text.length) throw new FilterExpressionError('guillemet fermant manquant', i);
+      tokens.push({ kind: 'string', value, position: i });
+      i = j + 1;
+    } else {
+      OP_PATTERN.lastIndex = i;
+      const op = OP_PATTERN.exec(text);
+      if (op) {
+        tokens.push({ kind: 'op', value: op[0], position: i });
+        i += op[0].length;
+        continue;
+      }
+      WORD_PATTERN.lastIndex = i;
+      const word = WORD_PATTERN.exec(text);
+      if (!word) throw new FilterExpressionError(`caractère inattendu "${char}"`, i);
+      tokens.push({ kind: 'word', value: word[0], position: i });
+      i += word[0].length;
+    }
+  }
+  return tokens;
+}
+
+const resolveField = (name: string) => FIELD_ALIASES[normalizeSearchText(name)] ?? name;
+
+export function parseFilterExpression(text: string): FilterGroup {
+  const tokens = tokenizeExpression(text);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const keywordOf = (token: Token | undefined) =>
+    token?.kind === 'word' ? KEYWORDS[token.value.toLowerCase()] : undefined;
+  const positionOf = (token: Token | undefined) => token?.position ?? text.length;
+
+  const expectValue = (): string => {
+    const token = tokens[index++];
+    if (!token || (token.kind !== 'word' && token.kind !== 'string')) {
+      throw new FilterExpressionError('valeur attendue', positionOf(token));
+    }
+    return token.value;
+  };
+
+  const parseCondition = (): FilterCondition => {
+    const token = tokens[index++];
+    if (!token || token.kind !== 'word') {
+      throw new FilterExpressionError('champ attendu', positionOf(token));
+    }
+
+    // has:champ
+    if (token.value.toLowerCase() === 'has' && peek()?.kind === 'op' && (peek() as { value: string }).value === ':') {
+      index++;
+      return { type: 'condition', field: resolveField(expectValue()), op: 'exists' };
+    }
+
+    // words(champ), length(champ)
+    let field = token.value;
+    let measure: FilterMeasure | undefined;
+    const measureName = MEASURE_ALIASES[token.value.toLowerCase()];
+    if (measureName && peek()?.kind === 'lparen') {
+      index++;
+      field = expectValue();
+      if (peek()?.kind !== 'rparen') throw new FilterExpressionError('parenthèse fermante attendue', positionOf(peek()));
+      index++;
+      measure = measureName;
+    }
+
+    const opToken = tokens[index++];
+    if (!opToken || opToken.kind !== 'op') {
+      throw new FilterExpressionError(`opérateur attendu après "${field}" (=, !=, ~, :, >, <...)`, positionOf(opToken));
+    }
+    const exact = opToken.value === '==' || opToken.value === '!==';
+    const symbol = exact ? opToken.value.slice(0, -1) : opToken.value;
+    const op = symbol === ':'
+      ? 'contains'
+      : (Object.keys(OPERATOR_SYMBOLS) as (keyof typeof OPERATOR_SYMBOLS)[]).find(key => OPERATOR_SYMBOLS[key] === symbol)!;
+
+    return {
+      type: 'condition',
+      field: resolveField(field),
+      ...(measure ? { measure } : {}),
+      op,
+      value: expectValue(),
+      ...(exact ? { exact } : {}),
+    };
+  };
+
+  const parseUnary = (): FilterNode => {
+    if (keywordOf(peek()) === 'not') {
+      index++;
+      const node = parseUnary();
+      return { ...node, negate: !node.negate };
+    }
+    if (peek()?.kind === 'lparen') {
+      const open = tokens[index++];
+      const node = parseOr();
+      if (peek()?.kind !== 'rparen') throw new FilterExpressionError('parenthèse fermante attendue', positionOf(open));
+      index++;
+      return node;
+    }
+    return parseCondition();
+  };
+
+  // ET implicite entre deux conditions juxtaposées
+  const parseAnd = (): FilterNode => {
+    const children = [parseUnary()];
+    while (peek() && peek()!.kind !== 'rparen' && keywordOf(peek()) !== 'or') {
+      if (keywordOf(peek()) === 'and') index++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'group', combinator: 'and', children };
+  };
+
+  const parseOr = (): FilterNode => {
+    const children = [parseAnd()];
+    while (keywordOf(peek()) === 'or') {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'group', combinator: 'or', children };
+  };
+
+  if (tokens.length === 0) return emptyFilter();
+  const node = parseOr();
+  if (index < tokens.length) {
+    throw new FilterExpressionError('expression incomplète ou parenthèse en trop', positionOf(peek()));
+  }
+  return node.type === 'group' ? node : { type: 'group', combinator: 'and', children: [node] };
+}
+
+function formatValue(value: string): string {
+  const bare = /^[^\s()"=!~:<>\\]+$/.test(value) && !KEYWORDS[value.toLowerCase()];
+  return bare ? value : `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function formatNode(node: FilterNode, nested: boolean): string {
+  let text: string;
+  if (node.type === 'condition') {
+    if (node.op === 'exists') {
+      text = `has:${node.field}`;
+    } else {
+      const subject = node.measure && node.measure !== 'value' ? `${node.measure}(${node.field})` : node.field;
+      const symbol = `${OPERATOR_SYMBOLS[node.op]}${node.exact && isExactOperator(node.op) ? '=' : ''}`;
+      text = `${subject} ${symbol} ${formatValue(node.value ?? '')}`;
+    }
+  } else {
+    const children = node.children.filter(child => !isEmptyFilter(child));
+    text = children.map(child => formatNode(child, true)).join(node.combinator === 'and' ? ' AND ' : ' OR ');
+    if ((nested || node.negate) && children.length > 1) text = `(${text})`;
+  }
+  return node.negate ? `NOT ${text}` : text;
+}
+
+export function formatFilterExpression(node: FilterNode): string {
+  return formatNode(node, false);
+}
+
+// Vérifier une expression issue de JSON (préréglage, lien partagé)
+export function parseFilterNode(input: unknown, path = 'expression'): FilterNode {
+  if (!input || typeof input !== 'object') {
+    throw new FilterExpressionError(`${path}: objet attendu`);
+  }
+  const raw = input as Record<string, unknown>;
+  const negate = raw.negate === true ? { negate: true } : {};
+
+  if (raw.type === 'group') {
+    if (!Array.isArray(raw.children)) throw new FilterExpressionError(`${path}.children: liste attendue`);
+    return {
+      type: 'group',
+      combinator: raw.combinator === 'or' ? 'or' : 'and',
+      children: raw.children.map((child, i) => parseFilterNode(child, `${path}.children[${i}]`)),
+      ...negate,
+    };
+  }
+
+  if (raw.type === 'condition') {
+    if (typeof raw.field !== 'string' || !raw.field) throw new FilterExpressionError(`${path}.field: champ attendu`);
+    if (!FILTER_OPERATORS.includes(raw.op as FilterOperator)) {
+      throw new FilterExpressionError(`${path}.op: opérateur inconnu (${FILTER_OPERATORS.join(', ')})`);
+    }
+    const measure = FILTER_MEASURES.includes(raw.measure as FilterMeasure) && raw.measure !== 'value'
+      ? { measure: raw.measure as FilterMeasure }
+      : {};
+    return {
+      type: 'condition',
+      field: raw.field,
+      op: raw.op as FilterOperator,
+      ...measure,
+      ...(raw.op !== 'exists' ? { value: raw.value === undefined || raw.value === null ? '' : String(raw.value) } : {}),
+      ...(raw.exact === true && isExactOperator(raw.op as FilterOperator) ? { exact: true } : {}),
+      ...negate,
+    };
+  }
+
+  throw new FilterExpressionError(`${path}.type: "group" ou "condition" attendu`);
+}
+
+// Racine toujours sous forme de groupe
+export function parseFilterGroup(input: unknown): FilterGroup {
+  const node = parseFilterNode(input);
+  return node.type === 'group' ? node : { type: 'group', combinator: 'and', children: [node] };
+}
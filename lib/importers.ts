@@ -0,0 +1,227 @@
+import { parseCsv } from './csv';
+import type { ServiceKeys } from './types';
+
+// Import de fichiers tabulaires (CSV, XLSX, NDJSON) vers des enregistrements Service
+
+export interface TabularData {
+  sourceName: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+  // Feuilles disponibles (XLSX)
+  sheets?: string[];
+  sheet?: string;
+}
+
+export type ImportFormat = 'csv' | 'xlsx' | 'ndjson' | 'json';
+
+export interface FieldMapping {
+  column: string | null;
+}
+
+// institutionName est déduit des métadonnées d'institutions, pas importé
+export type MappableField = Exclude<ServiceKeys, 'institutionName'>;
+
+export type ColumnMapping = Record<MappableField, FieldMapping>;
+
+export interface MappingOptions {
+  // Séparateur de la colonne des catégories
+  categorySeparator: string;
+  // isActive lu dans sa colonne ou déduit du statut
+  isActiveSource: 'column' | 'status';
+  // Générer un identifiant à partir du numéro de ligne si la colonne id n'est pas associée
+  generateIds: boolean;
+}
+
+export const DEFAULT_MAPPING_OPTIONS: MappingOptions = {
+  categorySeparator: ';',
+  isActiveSource: 'status',
+  generateIds: true,
+};
+
+export const MAPPABLE_FIELDS: MappableField[] = [
+  'id', 'name', 'categories', 'description', 'status', 'isActive', 'institutionId', 'icon', 'url'
+];
+
+export function detectImportFormat(filename: string): ImportFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'csv':
+    case 'tsv':
+    case 'txt':
+      return 'csv';
+    case 'xlsx':
+      return 'xlsx';
+    case 'ndjson':
+    case 'jsonl':
+      return 'ndjson';
+    case 'json':
+      return 'json';
+    default:
+      return null;
+  }
+}
+
+function collectColumns(rows: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return [...columns];
+}
+
+export function parseCsvTable(text: string, sourceName: string): TabularData {
+  const [header = [], ...lines] = parseCsv(text);
+  const columns = header.map((name, i) => name.trim() || `Colonne ${i + 1}`);
+  const rows = lines.map(line => Object.fromEntries(columns.map((column, i) => [column, line[i] ?? ''])));
+  return { sourceName, columns, rows };
+}
+
+export function parseNdjson(text: string, sourceName: string): TabularData {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+    .filter(({ line }) => line)
+    .map(({ line, number }) => {
+      try {
+        const value = JSON.parse(line);
+        return value && typeof value === 'object' && !Array.isArray(value) ? value : { value };
+      } catch {
+        throw new Error(`NDJSON invalide à la ligne ${number}`);
+      }
+    });
+  return { sourceName, columns: collectColumns(rows), rows };
+}
+
+export async function parseXlsx(buffer: ArrayBuffer, sourceName: string, sheet?: string): Promise<TabularData> {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const sheets = workbook.worksheets.map(ws => ws.name);
+  const worksheet = (sheet && workbook.getWorksheet(sheet)) || workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error('Le classeur ne contient aucune feuille');
+  }
+
+  const headerRow = worksheet.getRow(1);
+  const columns: string[] = [];
+  for (let c = 1; c <= worksheet.columnCount; c++) {
+    columns.push(headerRow.getCell(c).text.trim() || `Colonne ${c}`);
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const record = Object.fromEntries(columns.map((column, i) => [column, row.getCell(i + 1).text]));
+    if (Object.values(record).some(value => String(value).trim() !== '')) {
+      rows.push(record);
+    }
+  });
+
+  return { sourceName, columns, rows, sheets, sheet: worksheet.name };
+}
+
+// Lire un fichier déposé ou sélectionné
+export async function readTabularFile(file: File, sheet?: string): Promise<TabularData> {
+  const format = detectImportFormat(file.name);
+  switch (format) {
+    case 'csv':
+      return parseCsvTable(await file.text(), file.name);
+    case 'ndjson':
+      return parseNdjson(await file.text(), file.name);
+    case 'xlsx':
+      return parseXlsx(await file.arrayBuffer(), file.name, sheet);
+    default:
+      throw new Error(`Format de fichier non pris en charge: ${file.name}`);
+  }
+}
+
+// Association automatique des colonnes d'après leur nom
+const FIELD_ALIASES: Record<MappableField, string[]> = {
+  id: ['id', 'identifiant', 'code', 'ref', 'reference'],
+  name: ['name', 'nom', 'libelle', 'intitule', 'service', 'nom du service', 'titre'],
+  categories: ['categories', 'categorie', 'category', 'themes', 'theme', 'domaine'],
+  description: ['description', 'desc', 'resume', 'details'],
+  status: ['status', 'statut', 'etat'],
+  isActive: ['isactive', 'actif', 'active', 'is_active'],
+  institutionId: ['institutionid', 'institution', 'ministere', 'institution_id', 'structure'],
+  icon: ['icon', 'icone', 'image', 'logo'],
+  url: ['url', 'lien', 'site', 'adresse', 'link', 'eservice'],
+};
+
+const normalizeName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+export function guessMapping(columns: string[]): ColumnMapping {
+  const used = new Set<string>();
+  const mapping = {} as ColumnMapping;
+  MAPPABLE_FIELDS.forEach(field => {
+    const column = columns.find(c => !used.has(c) && FIELD_ALIASES[field].includes(normalizeName(c))) ?? null;
+    if (column) used.add(column);
+    mapping[field] = { column };
+  });
+  return mapping;
+}
+
+// Sans colonne status ni isActive, la validation rejetterait chaque ligne (ni status ni isActive exploitable)
+export function mappingError(mapping: ColumnMapping): string | null {
+  return mapping.status.column || mapping.isActive.column
+    ? null
+    : 'Associez une colonne status ou isActive : chaque service doit avoir un statut';
+}
+
+const ACTIVE_VALUES = ['actif', 'active', 'oui', 'yes', 'true', '1', 'x', 'vrai'];
+
+const isActiveValue = (value: unknown) => ACTIVE_VALUES.includes(normalizeName(String(value ?? '')));
+
+// Construire les enregistrements bruts, validés ensuite comme les autres sources
+export function applyMapping(
+  data: TabularData,
+  mapping: ColumnMapping,
+  options: MappingOptions = DEFAULT_MAPPING_OPTIONS
+): Record<string, unknown>[] {
+  const read = (row: Record<string, unknown>, field: MappableField) => {
+    const column = mapping[field]?.column;
+    return column ? row[column] : undefined;
+  };
+
+  return data.rows.map((row, index) => {
+    const record: Record<string, unknown> = {};
+
+    const id = read(row, 'id');
+    record.id = id !== undefined && String(id).trim() !== ''
+      ? String(id).trim()
+      : options.generateIds ? `ligne-${index + 1}` : undefined;
+
+    record.name = read(row, 'name');
+    record.description = read(row, 'description') ?? '';
+    record.institutionId = read(row, 'institutionId') ?? '';
+
+    const categories = read(row, 'categories');
+    record.categories = Array.isArray(categories)
+      ? categories
+      : String(categories ?? '')
+        .split(options.categorySeparator || ';')
+        .map(c => c.trim())
+        .filter(Boolean);
+
+    // Colonne isActive lue si elle est choisie, ou seule associée
+    const status = read(row, 'status');
+    const isActive = mapping.isActive.column && (options.isActiveSource === 'column' || !mapping.status.column)
+      ? isActiveValue(read(row, 'isActive'))
+      : status !== undefined ? isActiveValue(status) : undefined;
+
+    if (isActive !== undefined) {
+      record.isActive = isActive;
+      record.status = isActive ? 'Actif' : 'Inactif';
+    } else if (status !== undefined) {
+      record.status = status;
+    }
+
+    const icon = read(row, 'icon');
+    record.icon = icon ? String(icon) : null;
+
+    const url = read(row, 'url');
+    if (url) record.url = String(url).trim();
+
+    return record;
+  });
+}
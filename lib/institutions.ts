@@ -0,0 +1,115 @@
+import type { TabularData } from './importers';
+import { normalizeSearchText } from './search';
+import type { Institution, Service } from './types';
+
+// Métadonnées des institutions : lecture, fusion et résolution des noms
+
+const STORAGE_KEY = 'foncix.institutions.v1';
+
+// Colonnes / clés reconnues pour l'identifiant et le nom
+const ID_KEYS = ['id', 'institutionid', 'institution_id', 'code', 'identifiant'];
+const NAME_KEYS = ['name', 'nom', 'libelle', 'label', 'title', 'titre', 'intitule', 'institution'];
+const ACRONYM_KEYS = ['acronym', 'sigle', 'acronyme', 'abbreviation'];
+const URL_KEYS = ['url', 'site', 'website', 'lien'];
+
+const normalizeKey = (key: string) => normalizeSearchText(key).trim();
+
+function pick(record: Record<string, unknown>, keys: string[]): string | undefined {
+  const entry = Object.entries(record).find(([key]) => keys.includes(normalizeKey(key)));
+  if (!entry) return undefined;
+  const value = entry[1];
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function toInstitution(record: unknown): Institution | null {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) return null;
+  const raw = record as Record<string, unknown>;
+  const id = pick(raw, ID_KEYS);
+  const name = pick(raw, NAME_KEYS);
+  if (!id || !name) return null;
+
+  const institution: Institution = { id, name };
+  const acronym = pick(raw, ACRONYM_KEYS);
+  const url = pick(raw, URL_KEYS);
+  if (acronym) institution.acronym = acronym;
+  if (url) institution.url = url;
+  return institution;
+}
+
+// Formes acceptées : [{ id, name }], { institutions: [...] }, { data: [...] } ou { "<id>": "<nom>" }
+export function parseInstitutions(data: unknown): Institution[] {
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object'
+      ? (data as Record<string, unknown>).institutions ?? (data as Record<string, unknown>).data
+      : undefined;
+
+  if (Array.isArray(list)) {
+    const institutions = list.map(toInstitution).filter((i): i is Institution => i !== null);
+    if (list.length > 0 && institutions.length === 0) {
+      throw new Error('Aucune institution reconnue: colonnes "id" et "name" (ou "nom") attendues');
+    }
+    return dedupe(institutions);
+  }
+
+  if (data && typeof data === 'object') {
+    const entries = Object.entries(data as Record<string, unknown>)
+      .filter(([, name]) => typeof name === 'string' && name.trim());
+    if (entries.length > 0) {
+      return entries.map(([id, name]) => ({ id, name: String(name).trim() }));
+    }
+  }
+
+  throw new Error('Format d\'institutions invalide: liste [{ id, name }] ou objet { id: nom } attendu');
+}
+
+// Fichier tabulaire (CSV / XLSX) de correspondance id -> nom
+export function institutionsFromTable(table: TabularData): Institution[] {
+  return parseInstitutions(table.rows);
+}
+
+function dedupe(institutions: Institution[]): Institution[] {
+  const byId = new Map<string, Institution>();
+  institutions.forEach(institution => byId.set(institution.id, institution));
+  return [...byId.values()];
+}
+
+// Les entrées de overrides remplacent celles de base (fichier local > portail)
+export function mergeInstitutions(base: Institution[], overrides: Institution[]): Institution[] {
+  return dedupe([...base, ...overrides]);
+}
+
+// Ajouter institutionName aux services (tableau inchangé sans métadonnées)
+export function attachInstitutions(services: Service[], institutions: Institution[]): Service[] {
+  if (institutions.length === 0) return services;
+  const names = new Map(institutions.map(institution => [institution.id, institution.name]));
+  return services.map(service => {
+    const institutionName = names.get(service.institutionId);
+    return institutionName ? { ...service, institutionName } : service;
+  });
+}
+
+// Libellé d'une institution : nom résolu, sinon identifiant
+export function institutionLabel(service: Pick<Service, 'institutionId' | 'institutionName'>): string {
+  return service.institutionName || service.institutionId;
+}
+
+export function loadStoredInstitutions(): Institution[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parseInstitutions(JSON.parse(raw)) : [];
+  } catch (err) {
+    console.error('Institutions illisibles dans le stockage local:', err);
+    return [];
+  }
+}
+
+export function saveStoredInstitutions(institutions: Institution[]) {
+  if (institutions.length === 0) {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } else {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(institutions));
+  }
+}
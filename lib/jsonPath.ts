@@ -0,0 +1,368 @@
+// Requêtes JSONPath sur le résultat de la transformation (sous-ensemble de la syntaxe de Goessner)
+// $.a.b, $['a'], $[0], $[-1], $[*], $..a, $[0:10:2], $[0,2], $[?(@.x == 'y' && @.n > 2)], @.list.length
+
+export interface JsonPathMatch {
+  // Chemin normalisé, ex. $[3].categories[0]
+  path: string;
+  value: unknown;
+}
+
+type CompareOp = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Operand =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; root: '@' | '$'; segments: Segment[] };
+
+type FilterExpr =
+  | { kind: 'and' | 'or'; left: FilterExpr; right: FilterExpr }
+  | { kind: 'not'; operand: FilterExpr }
+  | { kind: 'compare'; op: CompareOp; left: Operand; right: Operand }
+  | { kind: 'exists'; operand: Operand };
+
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'wildcard' }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number; end?: number; step: number }
+  | { kind: 'filter'; expression: FilterExpr };
+
+interface Segment {
+  // .. : le sélecteur s'applique au nœud et à tous ses descendants
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+interface PathNode {
+  path: (string | number)[];
+  value: unknown;
+}
+
+export class JsonPathError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position === undefined ? message : `${message} (position ${position + 1})`);
+    this.name = 'JsonPathError';
+  }
+}
+
+const NAME_PATTERN = /[^\s.[\]()=!<>&|,'"@$]+/y;
+const NUMBER_PATTERN = /-?\d+(\.\d+)?/y;
+const INTEGER_PATTERN = /-?\d+/y;
+const COMPARE_PATTERN = /==|!=|<=|>=|<|>/y;
+
+function parseQuery(text: string): { root: '$' | '@'; segments: Segment[] } {
+  let pos = 0;
+
+  const skipSpaces = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const match = (pattern: RegExp): string | null => {
+    pattern.lastIndex = pos;
+    const result = pattern.exec(text);
+    if (!result) return null;
+    pos += result[0].length;
+    return result[0];
+  };
+  const expect = (token: string) => {
+    skipSpaces();
+    if (!text.startsWith(token, pos)) throw new JsonPathError(`« ${token} » attendu`, pos);
+    pos += token.length;
+  };
+
+  const parseString = (): string => {
+    const quote = text[pos];
+    let value = '';
+    let i = pos + 1;
+    while (i < text.length && text[i] !== quote) {
+      if (text[i] === '\\' && i + 1 < text.length) i++;
+      value += text[i];
+      i++;
+    }
+    if (i >= text.length) throw new JsonPathError('guillemet fermant manquant', pos);
+    pos = i + 1;
+    return value;
+  };
+
+  const parseSelector = (): Selector => {
+    skipSpaces();
+    const start = pos;
+    if (text[pos] === '*') {
+      pos++;
+      return { kind: 'wildcard' };
+    }
+    if (text[pos] === '\'' || text[pos] === '"') {
+      return { kind: 'name', name: parseString() };
+    }
+    if (text.startsWith('?', pos)) {
+      pos++;
+      expect('(');
+      const expression = parseOr();
+      expect(')');
+      return { kind: 'filter', expression };
+    }
+    const first = match(INTEGER_PATTERN);
+    skipSpaces();
+    if (text[pos] !== ':') {
+      if (first === null) throw new JsonPathError('sélecteur invalide', start);
+      return { kind: 'index', index: Number(first) };
+    }
+    // Tranche [début:fin:pas]
+    pos++;
+    skipSpaces();
+    const end = match(INTEGER_PATTERN);
+    skipSpaces();
+    let step = '1';
+    if (text[pos] === ':') {
+      pos++;
+      skipSpaces();
+      step = match(INTEGER_PATTERN) ?? '1';
+    }
+    if (Number(step) === 0) throw new JsonPathError('le pas d\'une tranche ne peut pas être nul', start);
+    return {
+      kind: 'slice',
+      start: first === null ? undefined : Number(first),
+      end: end === null ? undefined : Number(end),
+      step: Number(step),
+    };
+  };
+
+  const parseBracket = (): Selector[] => {
+    const selectors = [parseSelector()];
+    skipSpaces();
+    while (text[pos] === ',') {
+      pos++;
+      selectors.push(parseSelector());
+      skipSpaces();
+    }
+    expect(']');
+    return selectors;
+  };
+
+  const parseSegments = (): Segment[] => {
+    const segments: Segment[] = [];
+    while (pos < text.length) {
+      const start = pos;
+      if (text.startsWith('..', pos)) {
+        pos += 2;
+        if (text[pos] === '[') {
+          pos++;
+          segments.push({ descendant: true, selectors: parseBracket() });
+        } else if (text[pos] === '*') {
+          pos++;
+          segments.push({ descendant: true, selectors: [{ kind: 'wildcard' }] });
+        } else {
+          const name = match(NAME_PATTERN);
+          if (!name) throw new JsonPathError('nom de champ attendu après « .. »', start);
+          segments.push({ descendant: true, selectors: [{ kind: 'name', name }] });
+        }
+      } else if (text[pos] === '.') {
+        pos++;
+        if (text[pos] === '*') {
+          pos++;
+          segments.push({ descendant: false, selectors: [{ kind: 'wildcard' }] });
+        } else {
+          const name = match(NAME_PATTERN);
+          if (!name) throw new JsonPathError('nom de champ attendu après « . »', start);
+          segments.push({ descendant: false, selectors: [{ kind: 'name', name }] });
+        }
+      } else if (text[pos] === '[') {
+        pos++;
+        segments.push({ descendant: false, selectors: parseBracket() });
+      } else {
+        break;
+      }
+    }
+    return segments;
+  };
+
+  const parseOperand = (): Operand => {
+    skipSpaces();
+    const start = pos;
+    const char = text[pos];
+    if (char === '@' || char === '$') {
+      pos++;
+      return { kind: 'path', root: char, segments: parseSegments() };
+    }
+    if (char === '\'' || char === '"') return { kind: 'literal', value: parseString() };
+    const number = match(NUMBER_PATTERN);
+    if (number !== null) return { kind: 'literal', value: Number(number) };
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(word, pos)) {
+        pos += word.length;
+        return { kind: 'literal', value };
+      }
+    }
+    throw new JsonPathError('valeur ou chemin (@...) attendu', start);
+  };
+
+  const parseUnary = (): FilterExpr => {
+    skipSpaces();
+    if (text[pos] === '!' && text[pos + 1] !== '=') {
+      pos++;
+      return { kind: 'not', operand: parseUnary() };
+    }
+    if (text[pos] === '(') {
+      pos++;
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    const left = parseOperand();
+    skipSpaces();
+    const op = match(COMPARE_PATTERN) as CompareOp | null;
+    if (!op) return { kind: 'exists', operand: left };
+    return { kind: 'compare', op, left, right: parseOperand() };
+  };
+
+  const parseBinary = (kind: 'and' | 'or', token: string, next: () => FilterExpr) => (): FilterExpr => {
+    let left = next();
+    skipSpaces();
+    while (text.startsWith(token, pos)) {
+      pos += token.length;
+      left = { kind, left, right: next() };
+      skipSpaces();
+    }
+    return left;
+  };
+  const parseAnd = parseBinary('and', '&&', parseUnary);
+  const parseOr = parseBinary('or', '||', parseAnd);
+
+  skipSpaces();
+  const root = text[pos];
+  if (root !== '$' && root !== '@') throw new JsonPathError('la requête doit commencer par « $ »', pos);
+  pos++;
+  const segments = parseSegments();
+  skipSpaces();
+  if (pos < text.length) throw new JsonPathError(`caractère inattendu « ${text[pos]} »`, pos);
+  return { root, segments };
+}
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  value !== null && typeof value === 'object';
+
+function children(node: PathNode): PathNode[] {
+  if (Array.isArray(node.value)) {
+    return node.value.map((value, index) => ({ path: [...node.path, index], value }));
+  }
+  if (isContainer(node.value)) {
+    return Object.entries(node.value).map(([key, value]) => ({ path: [...node.path, key], value }));
+  }
+  return [];
+}
+
+function descendants(node: PathNode): PathNode[] {
+  return [node, ...children(node).flatMap(descendants)];
+}
+
+function sliceIndexes(length: number, { start, end, step }: Extract<Selector, { kind: 'slice' }>): number[] {
+  const normalize = (index: number) => (index < 0 ? Math.max(length + index, 0) : Math.min(index, length));
+  const indexes: number[] = [];
+  if (step > 0) {
+    for (let i = normalize(start ?? 0); i < normalize(end ?? length); i += step) indexes.push(i);
+  } else {
+    const from = start === undefined ? length - 1 : Math.min(normalize(start), length - 1);
+    const to = end === undefined ? -1 : normalize(end);
+    for (let i = from; i > to; i += step) indexes.push(i);
+  }
+  return indexes;
+}
+
+function applySelector(node: PathNode, selector: Selector, root: unknown): PathNode[] {
+  const { value } = node;
+  switch (selector.kind) {
+    case 'name':
+      // length : taille des tableaux et des chaînes
+      if (selector.name === 'length' && (Array.isArray(value) || typeof value === 'string')) {
+        return [{ path: [...node.path, 'length'], value: value.length }];
+      }
+      return isContainer(value) && !Array.isArray(value) && Object.prototype.hasOwnProperty.call(value, selector.name)
+        ? [{ path: [...node.path, selector.name], value: value[selector.name] }]
+        : [];
+    case 'wildcard':
+      return children(node);
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [{ path: [...node.path, index], value: value[index] }] : [];
+    }
+    case 'slice':
+      return Array.isArray(value)
+        ? sliceIndexes(value.length, selector).map(index => ({ path: [...node.path, index], value: value[index] }))
+        : [];
+    case 'filter':
+      return children(node).filter(child => evaluateFilter(selector.expression, child.value, root));
+  }
+}
+
+function applySegments(nodes: PathNode[], segments: Segment[], root: unknown): PathNode[] {
+  return segments.reduce((current, segment) => current.flatMap(node =>
+    (segment.descendant ? descendants(node) : [node])
+      .flatMap(target => segment.selectors.flatMap(selector => applySelector(target, selector, root)))
+  ), nodes);
+}
+
+const MISSING = Symbol('missing');
+
+function operandValue(operand: Operand, current: unknown, root: unknown): unknown {
+  if (operand.kind === 'literal') return operand.value;
+  const start = operand.root === '@' ? current : root;
+  const [first] = applySegments([{ path: [], value: start }], operand.segments, root);
+  return first ? first.value : MISSING;
+}
+
+function compare(op: CompareOp, left: unknown, right: unknown): boolean {
+  if (left === MISSING || right === MISSING) return op === '!=' && left !== right;
+  const same = isContainer(left) || isContainer(right)
+    ? JSON.stringify(left) === JSON.stringify(right)
+    : left === right;
+  if (op === '==') return same;
+  if (op === '!=') return !same;
+
+  const comparable = (typeof left === 'number' && typeof right === 'number')
+    || (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) return false;
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+  }
+}
+
+function evaluateFilter(expression: FilterExpr, current: unknown, root: unknown): boolean {
+  switch (expression.kind) {
+    case 'and':
+      return evaluateFilter(expression.left, current, root) && evaluateFilter(expression.right, current, root);
+    case 'or':
+      return evaluateFilter(expression.left, current, root) || evaluateFilter(expression.right, current, root);
+    case 'not':
+      return !evaluateFilter(expression.operand, current, root);
+    case 'exists': {
+      const value = operandValue(expression.operand, current, root);
+      return value !== MISSING && value !== null && value !== undefined && value !== false;
+    }
+    case 'compare':
+      return compare(
+        expression.op,
+        operandValue(expression.left, current, root),
+        operandValue(expression.right, current, root)
+      );
+  }
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+export function formatJsonPath(path: (string | number)[]): string {
+  return path.reduce<string>((text, segment) => {
+    if (typeof segment === 'number') return `${text}[${segment}]`;
+    return IDENTIFIER_PATTERN.test(segment) ? `${text}.${segment}` : `${text}['${segment.replace(/'/g, '\\\'')}']`;
+  }, '$');
+}
+
+// Lève JsonPathError si la requête est invalide
+export function queryJsonPath(data: unknown, query: string): JsonPathMatch[] {
+  const { segments } = parseQuery(query);
+  return applySegments([{ path: [], value: data }], segments, data)
+    .map(node => ({ path: formatJsonPath(node.path), value: node.value }));
+}
@@ -0,0 +1,14 @@
+import * as monaco from 'monaco-editor';
+import { loader } from '@monaco-editor/react';
+
+// Monaco servi par l'application (aucun chargement depuis un CDN) ; workers construits par le bundler.
+// Module chargé côté navigateur uniquement : monaco-editor accède au DOM dès l'import
+
+self.MonacoEnvironment = {
+  getWorker: (_workerId, label) =>
+    label === 'typescript' || label === 'javascript'
+      ? new Worker(new URL('monaco-editor/esm/vs/language/typescript/ts.worker.js', import.meta.url), { type: 'module' })
+      : new Worker(new URL('monaco-editor/esm/vs/editor/editor.worker.js', import.meta.url), { type: 'module' }),
+};
+
+loader.config({ monaco });
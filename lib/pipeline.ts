@@ -0,0 +1,219 @@
+import { applyDeclarativeSchema, emptySchema, parseDeclarativeSchema, type DeclarativeSchema } from './declarativeSchema';
+import { emptyFilter, filterServices, parseFilterGroup, type FilterGroup } from './filterExpression';
+import { generateId } from './presets';
+import { compareValues, type SortDirection } from './resultTable';
+import type { ScriptRunner } from './transformCore';
+import type { Service } from './types';
+
+// Pipelines de transformation : étapes ordonnées, désactivables, appliquées à la suite
+
+export type PipelineStepType = 'filter' | 'selectKeys' | 'restructure' | 'group' | 'sort' | 'dedupe' | 'limit' | 'script';
+
+interface StepBase {
+  id: string;
+  enabled: boolean;
+}
+
+export type PipelineStep = StepBase & (
+  | { type: 'filter'; expression: FilterGroup }
+  | { type: 'selectKeys'; keys: string[] }
+  | { type: 'restructure'; schema: DeclarativeSchema }
+  // Les champs tableau (categories) placent l'élément dans un groupe par valeur
+  | { type: 'group'; field: string }
+  | { type: 'sort'; field: string; direction: SortDirection }
+  // Champs comparés ; vide = ligne entière
+  | { type: 'dedupe'; fields: string[] }
+  | { type: 'limit'; count: number; offset: number }
+  | { type: 'script'; code: string }
+);
+
+export interface Pipeline {
+  version: 1;
+  steps: PipelineStep[];
+}
+
+export interface StepResult {
+  stepId: string;
+  // Étape désactivée : sortie identique à l'entrée
+  skipped: boolean;
+  output: unknown[];
+  error?: string;
+}
+
+export const PIPELINE_STEP_TYPES: PipelineStepType[] = [
+  'filter', 'selectKeys', 'restructure', 'group', 'sort', 'dedupe', 'limit', 'script',
+];
+
+export function emptyPipeline(): Pipeline {
+  return { version: 1, steps: [] };
+}
+
+export function createStep(type: PipelineStepType): PipelineStep {
+  const base = { id: generateId(), enabled: true };
+  switch (type) {
+    case 'filter': return { ...base, type, expression: emptyFilter() };
+    case 'selectKeys': return { ...base, type, keys: ['name', 'id'] };
+    case 'restructure': return { ...base, type, schema: emptySchema() };
+    case 'group': return { ...base, type, field: 'categories' };
+    case 'sort': return { ...base, type, field: 'name', direction: 'asc' };
+    case 'dedupe': return { ...base, type, fields: [] };
+    case 'limit': return { ...base, type, count: 10, offset: 0 };
+    case 'script': return { ...base, type, code: 'return services;' };
+  }
+}
+
+// Lire un champ par chemin pointé
+function readPath(row: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, segment) => {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[segment];
+  }, row);
+}
+
+const asRecords = (rows: unknown[]) => rows as Record<string, unknown>[];
+
+function groupRows(rows: unknown[], field: string): unknown[] {
+  const groups = new Map<string, unknown[]>();
+  rows.forEach(row => {
+    const value = readPath(row, field);
+    const keys = Array.isArray(value) ? value : [value];
+    keys.forEach(key => {
+      const label = key === null || key === undefined || key === '' ? '' : String(key);
+      groups.set(label, [...(groups.get(label) ?? []), row]);
+    });
+  });
+  return [...groups].map(([key, items]) => ({ key, count: items.length, items }));
+}
+
+function dedupeRows(rows: unknown[], fields: string[]): unknown[] {
+  const seen = new Set<string>();
+  return rows.filter(row => {
+    const signature = JSON.stringify(fields.length > 0 ? fields.map(field => readPath(row, field)) : row);
+    if (seen.has(signature)) return false;
+    seen.add(signature);
+    return true;
+  });
+}
+
+async function applyStep(step: PipelineStep, rows: unknown[], runScript?: ScriptRunner): Promise<unknown[]> {
+  switch (step.type) {
+    case 'filter':
+      return filterServices(rows as Service[], step.expression);
+    case 'selectKeys':
+      return asRecords(rows).map(row => Object.fromEntries(step.keys.filter(key => key in Object(row)).map(key => [key, row[key]])));
+    case 'restructure':
+      return applyDeclarativeSchema(rows as Service[], step.schema);
+    case 'group':
+      return groupRows(rows, step.field);
+    case 'sort': {
+      const factor = step.direction === 'asc' ? 1 : -1;
+      return rows
+        .map((row, index) => ({ row, index, value: readPath(row, step.field) }))
+        .sort((a, b) => compareValues(a.value, b.value) * factor || a.index - b.index)
+        .map(({ row }) => row);
+    }
+    case 'dedupe':
+      return dedupeRows(rows, step.fields);
+    case 'limit':
+      return rows.slice(step.offset, step.offset + step.count);
+    case 'script': {
+      if (!runScript) throw new Error('Aucun exécuteur de script disponible');
+      const result = await runScript(step.code, rows as Service[]);
+      return Array.isArray(result) ? result : [result];
+    }
+  }
+}
+
+// Exécuter les étapes dans l'ordre ; une erreur interrompt le pipeline (étapes suivantes absentes)
+export async function runPipelineSteps(input: unknown[], pipeline: Pipeline, runScript?: ScriptRunner): Promise<StepResult[]> {
+  const results: StepResult[] = [];
+  let rows = input;
+
+  for (const step of pipeline.steps) {
+    if (!step.enabled) {
+      results.push({ stepId: step.id, skipped: true, output: rows });
+      continue;
+    }
+    try {
+      rows = await applyStep(step, rows, runScript);
+      results.push({ stepId: step.id, skipped: false, output: rows });
+    } catch (err) {
+      results.push({ stepId: step.id, skipped: false, output: [], error: err instanceof Error ? err.message : String(err) });
+      break;
+    }
+  }
+
+  return results;
+}
+
+// Résultat final du pipeline (lève l'erreur de la première étape en échec)
+export async function runPipeline(input: unknown[], pipeline: Pipeline, runScript?: ScriptRunner): Promise<unknown[]> {
+  const results = await runPipelineSteps(input, pipeline, runScript);
+  const failed = results.find(result => result.error);
+  if (failed) {
+    const index = pipeline.steps.findIndex(step => step.id === failed.stepId);
+    throw new Error(`Étape ${index + 1} : ${failed.error}`);
+  }
+  return results.length > 0 ? results[results.length - 1].output : input;
+}
+
+export function hasScriptSteps(pipeline: Pipeline): boolean {
+  return pipeline.steps.some(step => step.enabled && step.type === 'script');
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function parseStep(input: unknown, index: number): PipelineStep {
+  if (!input || typeof input !== 'object') {
+    throw new Error(`Étape ${index + 1} : objet attendu`);
+  }
+  const raw = input as Record<string, unknown>;
+  const type = raw.type as PipelineStepType;
+  if (!PIPELINE_STEP_TYPES.includes(type)) {
+    throw new Error(`Étape ${index + 1} : type inconnu « ${String(raw.type)} »`);
+  }
+
+  const step = createStep(type);
+  step.id = isString(raw.id) && raw.id ? raw.id : step.id;
+  step.enabled = raw.enabled !== false;
+
+  switch (step.type) {
+    case 'filter':
+      if (raw.expression) step.expression = parseFilterGroup(raw.expression);
+      break;
+    case 'selectKeys':
+      if (Array.isArray(raw.keys)) step.keys = raw.keys.filter(isString);
+      break;
+    case 'restructure':
+      if (raw.schema) step.schema = parseDeclarativeSchema(raw.schema);
+      break;
+    case 'group':
+      if (isString(raw.field)) step.field = raw.field;
+      break;
+    case 'sort':
+      if (isString(raw.field)) step.field = raw.field;
+      step.direction = raw.direction === 'desc' ? 'desc' : 'asc';
+      break;
+    case 'dedupe':
+      if (Array.isArray(raw.fields)) step.fields = raw.fields.filter(isString);
+      break;
+    case 'limit':
+      step.count = Number.isInteger(raw.count) && (raw.count as number) >= 0 ? raw.count as number : step.count;
+      step.offset = Number.isInteger(raw.offset) && (raw.offset as number) >= 0 ? raw.offset as number : 0;
+      break;
+    case 'script':
+      if (isString(raw.code)) step.code = raw.code;
+      break;
+  }
+  return step;
+}
+
+// Vérifier un pipeline issu de JSON (préréglage, fichier, URL)
+export function parsePipeline(input: unknown): Pipeline {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  const steps = Array.isArray(data) ? data : (data as Record<string, unknown> | null)?.steps;
+  if (!Array.isArray(steps)) {
+    throw new Error('Pipeline invalide : liste « steps » attendue');
+  }
+  return { version: 1, steps: steps.map(parseStep) };
+}
@@ -0,0 +1,199 @@
+import { emptySchema, parseDeclarativeSchema, type DeclarativeSchema } from './declarativeSchema';
+import { emptyFilter, parseFilterGroup, type FilterGroup } from './filterExpression';
+import { emptyPipeline, parsePipeline, type Pipeline } from './pipeline';
+import type { CategoryMatch } from './taxonomy';
+
+// Préréglages de transformation enregistrés par l'utilisateur
+
+export type TransformMode = 'keys' | 'custom' | 'pipeline';
+export type CustomEditor = 'code' | 'visual';
+export type StatusFilter = 'all' | 'Actif' | 'Inactif';
+export type ViewMode = 'json' | 'table' | 'tree' | 'compare';
+
+export const VIEW_MODES: ViewMode[] = ['json', 'table', 'tree', 'compare'];
+
+export interface TransformFilters {
+  searchQuery: string;
+  selectedCategories: string[];
+  // Catégories cochées seules, ou avec leurs sous-catégories
+  categoryMatch: CategoryMatch;
+  selectedInstitutions: string[];
+  statusFilter: StatusFilter;
+  // Expression avancée (ET / OU / NON)
+  expression: FilterGroup;
+}
+
+// Réglages restaurés par un préréglage
+export interface TransformSettings {
+  transformMode: TransformMode;
+  customEditor: CustomEditor;
+  selectedKeys: string[];
+  customSchema: string;
+  declarativeSchema: DeclarativeSchema;
+  // Étapes du mode pipeline
+  pipeline: Pipeline;
+  filters: TransformFilters;
+  viewMode: ViewMode;
+}
+
+export interface TransformPreset extends TransformSettings {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PresetLibrary {
+  format: 'foncix-presets';
+  version: 1;
+  exportedAt: string;
+  presets: TransformPreset[];
+}
+
+const STORAGE_KEY = 'foncix.presets.v1';
+
+// Réglages initiaux du transformateur
+export const DEFAULT_SETTINGS: TransformSettings = {
+  transformMode: 'keys',
+  customEditor: 'code',
+  selectedKeys: ['name', 'id'],
+  customSchema: '',
+  declarativeSchema: { version: 1, fields: [] },
+  pipeline: { version: 1, steps: [] },
+  filters: { searchQuery: '', selectedCategories: [], categoryMatch: 'exact', selectedInstitutions: [], statusFilter: 'all', expression: emptyFilter() },
+  viewMode: 'json',
+};
+
+export function generateId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Vérifier et compléter des réglages issus de JSON (import, URL...)
+export function parseSettings(raw: Record<string, unknown>): TransformSettings {
+  const filters = (raw.filters ?? {}) as Record<string, unknown>;
+
+  return {
+    transformMode: raw.transformMode === 'custom' || raw.transformMode === 'pipeline' ? raw.transformMode : 'keys',
+    customEditor: raw.customEditor === 'visual' ? 'visual' : 'code',
+    selectedKeys: Array.isArray(raw.selectedKeys) ? raw.selectedKeys.filter(isString) : [],
+    customSchema: isString(raw.customSchema) ? raw.customSchema : '',
+    declarativeSchema: raw.declarativeSchema ? parseDeclarativeSchema(raw.declarativeSchema) : emptySchema(),
+    pipeline: raw.pipeline ? parsePipeline(raw.pipeline) : emptyPipeline(),
+    filters: {
+      searchQuery: isString(filters.searchQuery) ? filters.searchQuery : '',
+      selectedCategories: Array.isArray(filters.selectedCategories) ? filters.selectedCategories.filter(isString) : [],
+      categoryMatch: filters.categoryMatch === 'descendants' ? 'descendants' : 'exact',
+      selectedInstitutions: Array.isArray(filters.selectedInstitutions) ? filters.selectedInstitutions.filter(isString) : [],
+      statusFilter: filters.statusFilter === 'Actif' || filters.statusFilter === 'Inactif' ? filters.statusFilter : 'all',
+      expression: filters.expression ? parseFilterGroup(filters.expression) : emptyFilter(),
+    },
+    viewMode: VIEW_MODES.includes(raw.viewMode as ViewMode) ? raw.viewMode as ViewMode : 'json',
+  };
+}
+
+// Vérifier et compléter un préréglage importé
+export function parsePreset(input: unknown, index = 0): TransformPreset {
+  const where = `Préréglage #${index + 1}`;
+  if (!input || typeof input !== 'object') {
+    throw new Error(`${where}: objet attendu`);
+  }
+  const raw = input as Record<string, unknown>;
+  if (!isString(raw.name) || !raw.name.trim()) {
+    throw new Error(`${where}: nom manquant`);
+  }
+
+  const now = new Date().toISOString();
+
+  return {
+    ...parseSettings(raw),
+    id: isString(raw.id) && raw.id ? raw.id : generateId(),
+    name: raw.name.trim(),
+    createdAt: isString(raw.createdAt) ? raw.createdAt : now,
+    updatedAt: isString(raw.updatedAt) ? raw.updatedAt : now,
+  };
+}
+
+export function loadPresets(): TransformPreset[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const data = JSON.parse(raw);
+    return Array.isArray(data) ? data.map((p, i) => parsePreset(p, i)) : [];
+  } catch (err) {
+    console.error('Préréglages illisibles dans le stockage local:', err);
+    return [];
+  }
+}
+
+export function savePresets(presets: TransformPreset[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+export function createPreset(name: string, settings: TransformSettings): TransformPreset {
+  const now = new Date().toISOString();
+  return { ...structuredClone(settings), id: generateId(), name: name.trim(), createdAt: now, updatedAt: now };
+}
+
+export function renamePreset(presets: TransformPreset[], id: string, name: string): TransformPreset[] {
+  return presets.map(p => (p.id === id ? { ...p, name: name.trim(), updatedAt: new Date().toISOString() } : p));
+}
+
+// Nom libre pour une copie : « Nom (copie) », « Nom (copie 2) »...
+function copyName(presets: TransformPreset[], name: string): string {
+  const names = new Set(presets.map(p => p.name));
+  let candidate = `${name} (copie)`;
+  for (let n = 2; names.has(candidate); n++) {
+    candidate = `${name} (copie ${n})`;
+  }
+  return candidate;
+}
+
+export function duplicatePreset(presets: TransformPreset[], id: string): TransformPreset[] {
+  const index = presets.findIndex(p => p.id === id);
+  if (index === -1) return presets;
+  const copy = createPreset(copyName(presets, presets[index].name), presets[index]);
+  return [...presets.slice(0, index + 1), copy, ...presets.slice(index + 1)];
+}
+
+export function deletePreset(presets: TransformPreset[], id: string): TransformPreset[] {
+  return presets.filter(p => p.id !== id);
+}
+
+export function exportPresetLibrary(presets: TransformPreset[]): string {
+  const library: PresetLibrary = {
+    format: 'foncix-presets',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    presets,
+  };
+  return JSON.stringify(library, null, 2);
+}
+
+// Lire une bibliothèque exportée (ou un tableau de préréglages)
+export function parsePresetLibrary(text: string): TransformPreset[] {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.presets;
+  if (!Array.isArray(list)) {
+    throw new Error('Fichier de préréglages invalide: liste "presets" attendue');
+  }
+  return list.map((p, i) => parsePreset(p, i));
+}
+
+// Fusionner des préréglages importés ; les identifiants déjà présents sont renouvelés
+export function mergePresets(existing: TransformPreset[], imported: TransformPreset[]): TransformPreset[] {
+  const ids = new Set(existing.map(p => p.id));
+  return [
+    ...existing,
+    ...imported.map(p => {
+      const preset = ids.has(p.id) ? { ...p, id: generateId() } : p;
+      ids.add(preset.id);
+      return preset;
+    }),
+  ];
+}
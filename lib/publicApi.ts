@@ -0,0 +1,283 @@
+import { SERVICE_KEYS } from './declarativeSchema';
+import { DataUtils } from './dataUtils';
+import { EXAMPLES, isExampleKey } from './examples';
+import { emptyFilter, FilterExpressionError, parseFilterExpression } from './filterExpression';
+import { toRows } from './exporters';
+import type { TransformFilters } from './presets';
+import { sortRows, toTableRows, type SortState } from './resultTable';
+import { applyTransformFilters, runTransform, type TransformSpec } from './transformCore';
+import type { Service, ServiceKeys, SnapshotInfo } from './types';
+
+// API publique /api/v1 : paramètres de requête, négociation du format et document OpenAPI
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export type PublicFormat = 'json' | 'csv';
+
+export interface PublicQuery {
+  filters: TransformFilters;
+  spec: TransformSpec;
+  sort: SortState | null;
+  page: number;
+  pageSize: number;
+}
+
+export interface PublicPage {
+  data: Record<string, unknown>[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface PublicServicesResponse extends PublicPage {
+  snapshot: Pick<SnapshotInfo, 'id' | 'fetchedAt'> & { stale: boolean };
+}
+
+// Paramètre invalide (réponse 400)
+export class PublicQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublicQueryError';
+  }
+}
+
+// Valeurs répétées (?category=a&category=b) ; séparées par des virgules si split
+function readList(params: URLSearchParams, name: string, split = false): string[] {
+  return params.getAll(name)
+    .flatMap(value => (split ? value.split(',') : [value]))
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+function readPositiveInt(params: URLSearchParams, name: string, fallback: number, max = Infinity): number {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    throw new PublicQueryError(max === Infinity ? `${name} doit être un entier ≥ 1` : `${name} doit être un entier entre 1 et ${max}`);
+  }
+  return value;
+}
+
+export function parsePublicQuery(params: URLSearchParams): PublicQuery {
+  const status = params.get('status') ?? 'all';
+  if (status !== 'all' && status !== 'Actif' && status !== 'Inactif') {
+    throw new PublicQueryError('status doit valoir Actif, Inactif ou all');
+  }
+
+  let expression = emptyFilter();
+  const filter = params.get('filter');
+  if (filter) {
+    try {
+      expression = parseFilterExpression(filter);
+    } catch (err) {
+      throw new PublicQueryError(err instanceof FilterExpressionError ? `filter: ${err.message}` : 'filter invalide');
+    }
+  }
+
+  const keys = readList(params, 'keys', true);
+  const preset = params.get('preset') ?? undefined;
+  if (keys.length > 0 && preset) {
+    throw new PublicQueryError('keys et preset sont incompatibles');
+  }
+  const unknownKeys = keys.filter(key => !(SERVICE_KEYS as string[]).includes(key));
+  if (unknownKeys.length > 0) {
+    throw new PublicQueryError(`Clés inconnues: ${unknownKeys.join(', ')} (disponibles: ${SERVICE_KEYS.join(', ')})`);
+  }
+  if (preset && !isExampleKey(preset)) {
+    throw new PublicQueryError(`Préréglage inconnu: ${preset} (disponibles: ${Object.keys(EXAMPLES).join(', ')})`);
+  }
+
+  // Sans keys ni preset : services complets
+  const spec: TransformSpec = preset && isExampleKey(preset)
+    ? { mode: 'declarative', schema: EXAMPLES[preset].schema }
+    : { mode: 'keys', keys: (keys.length > 0 ? keys : SERVICE_KEYS) as ServiceKeys[] };
+
+  const sortParam = params.get('sort');
+  const sort: SortState | null = sortParam
+    ? sortParam.startsWith('-')
+      ? { column: sortParam.slice(1), direction: 'desc' }
+      : { column: sortParam, direction: 'asc' }
+    : null;
+
+  return {
+    filters: {
+      searchQuery: params.get('q') ?? '',
+      selectedCategories: readList(params, 'category'),
+      categoryMatch: 'exact',
+      selectedInstitutions: readList(params, 'institution'),
+      statusFilter: status,
+      expression,
+    },
+    spec,
+    sort,
+    page: readPositiveInt(params, 'page', 1),
+    pageSize: readPositiveInt(params, 'pageSize', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+  };
+}
+
+// Filtrer, transformer, trier puis paginer (les scripts ne sont pas acceptés côté serveur)
+export async function queryServices(services: Service[], query: PublicQuery): Promise<PublicPage> {
+  const filtered = applyTransformFilters(services, query.filters);
+  const rows = toTableRows(toRows(await runTransform(filtered, query.spec))) ?? [];
+
+  if (query.sort && rows.length > 0 && !rows.some(row => query.sort!.column in row.values)) {
+    throw new PublicQueryError(`sort: champ inconnu « ${query.sort.column} »`);
+  }
+  const sorted = sortRows(rows, query.sort).map(row => row.values);
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    data: sorted.slice(start, start + query.pageSize),
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      total: sorted.length,
+      totalPages: Math.ceil(sorted.length / query.pageSize),
+    },
+  };
+}
+
+export function pageToCsv(page: PublicPage): string {
+  return DataUtils.exportToCSV(page.data);
+}
+
+// Format demandé par l'en-tête Accept (JSON par défaut, null si aucun format servi n'est accepté)
+export function negotiateFormat(accept: string | null): PublicFormat | null {
+  if (!accept) return 'json';
+  const ranges = accept
+    .split(',')
+    .map(part => {
+      const [type, ...parameters] = part.trim().toLowerCase().split(';').map(s => s.trim());
+      const q = parameters.find(p => p.startsWith('q='));
+      return { type, q: q ? Number(q.slice(2)) : 1 };
+    })
+    .filter(range => range.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { type } of ranges) {
+    if (type === 'text/csv') return 'csv';
+    if (type === 'application/json' || type === 'application/*' || type === '*/*') return 'json';
+    if (type === 'text/*') return 'csv';
+  }
+  return null;
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+// Document OpenAPI 3.1 des routes /api/v1
+export function buildOpenApiDocument(serverUrl = '/'): Record<string, unknown> {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'foncix — API publique',
+      version: '1.0.0',
+      description: 'Services publics du catalogue chargé côté serveur, filtrés et transformés comme dans l\'interface.',
+    },
+    servers: [{ url: serverUrl }],
+    paths: {
+      '/api/v1/services': {
+        get: {
+          summary: 'Lister les services filtrés et transformés',
+          operationId: 'listServices',
+          parameters: [
+            { name: 'q', in: 'query', description: 'Recherche plein texte (préfixes cat:, name:, desc:, « expressions »)', schema: { type: 'string' } },
+            { name: 'category', in: 'query', description: 'Catégorie (répétable)', schema: { type: 'array', items: { type: 'string' } }, style: 'form', explode: true },
+            { name: 'institution', in: 'query', description: 'Identifiant d\'institution (répétable)', schema: { type: 'array', items: { type: 'string' } }, style: 'form', explode: true },
+            { name: 'status', in: 'query', schema: { type: 'string', enum: ['all', 'Actif', 'Inactif'], default: 'all' } },
+            { name: 'filter', in: 'query', description: 'Expression booléenne, ex. cat = Santé AND NOT has:url', schema: { type: 'string' } },
+            { name: 'keys', in: 'query', description: 'Clés à extraire (séparées par des virgules)', schema: { type: 'array', items: { type: 'string', enum: SERVICE_KEYS } }, style: 'form', explode: false },
+            { name: 'preset', in: 'query', description: 'Transformation nommée appliquée côté serveur', schema: { type: 'string', enum: Object.keys(EXAMPLES) } },
+            { name: 'sort', in: 'query', description: 'Champ de tri du résultat, préfixé par « - » pour l\'ordre décroissant', schema: { type: 'string' } },
+            { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+            { name: 'pageSize', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+            { name: 'refresh', in: 'query', description: 'Ignorer le cache du catalogue', schema: { type: 'boolean' } },
+          ],
+          responses: {
+            200: {
+              description: 'Page de résultats',
+              headers: {
+                'X-Total-Count': { schema: { type: 'integer' }, description: 'Nombre total de résultats' },
+                'X-Snapshot-Id': { schema: { type: 'string' }, description: 'Instantané du catalogue utilisé' },
+              },
+              content: {
+                'application/json': { schema: { $ref: '#/components/schemas/ServicePage' } },
+                'text/csv': { schema: { type: 'string' } },
+              },
+            },
+            400: errorResponse('Paramètre invalide'),
+            406: errorResponse('Format non disponible (application/json ou text/csv)'),
+            502: errorResponse('Portail indisponible et aucun instantané en cache'),
+          },
+        },
+      },
+      '/api/v1/presets': {
+        get: {
+          summary: 'Lister les préréglages de transformation disponibles',
+          operationId: 'listPresets',
+          responses: {
+            200: {
+              description: 'Préréglages',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      presets: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: { id: { type: 'string' }, title: { type: 'string' }, description: { type: 'string' } },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        ServicePage: {
+          type: 'object',
+          required: ['data', 'pagination', 'snapshot'],
+          properties: {
+            data: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'integer' },
+                pageSize: { type: 'integer' },
+                total: { type: 'integer' },
+                totalPages: { type: 'integer' },
+              },
+            },
+            snapshot: {
+              type: 'object',
+              properties: { id: { type: 'string' }, fetchedAt: { type: 'string', format: 'date-time' }, stale: { type: 'boolean' } },
+            },
+          },
+        },
+        Error: {
+          type: 'object',
+          properties: {
+            error: {
+              type: 'object',
+              properties: { code: { type: 'string' }, message: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { normalizeSearchText } from './search';
+
+// Tri et filtres de la vue tableau des résultats
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortState {
+  column: string;
+  direction: SortDirection;
+}
+
+export type ColumnFilters = Record<string, string>;
+
+export interface TableRow {
+  // Position dans le résultat d'origine
+  index: number;
+  values: Record<string, unknown>;
+}
+
+// Texte d'une cellule, utilisé pour les filtres et le tri des valeurs composées
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(cellText).join(' ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'boolean') return value ? 'oui true' : 'non false';
+  return String(value);
+}
+
+// Lignes du tableau : seuls les résultats sous forme de liste sont affichables
+export function toTableRows(data: unknown): TableRow[] | null {
+  if (!Array.isArray(data)) return null;
+  return data.map((item, index) => ({
+    index,
+    values: item && typeof item === 'object' && !Array.isArray(item) ? item : { value: item },
+  }));
+}
+
+export function filterRows(rows: TableRow[], filters: ColumnFilters): TableRow[] {
+  const active = Object.entries(filters)
+    .map(([column, query]) => [column, normalizeSearchText(query.trim())] as const)
+    .filter(([, query]) => query);
+  if (active.length === 0) return rows;
+
+  return rows.filter(row =>
+    active.every(([column, query]) => normalizeSearchText(cellText(row.values[column])).includes(query))
+  );
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Valeurs vides en dernier, nombres et booléens comparés comme tels
+export function compareValues(a: unknown, b: unknown): number {
+  const emptyA = isEmpty(a);
+  const emptyB = isEmpty(b);
+  if (emptyA || emptyB) return emptyA === emptyB ? 0 : emptyA ? 1 : -1;
+
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(b) - Number(a);
+  if (Array.isArray(a) && Array.isArray(b) && a.length !== b.length) return a.length - b.length;
+
+  return cellText(a).localeCompare(cellText(b), 'fr', { numeric: true, sensitivity: 'base' });
+}
+
+export function sortRows(rows: TableRow[], sort: SortState | null): TableRow[] {
+  if (!sort) return rows;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const valueA = a.values[sort.column];
+    const valueB = b.values[sort.column];
+    const order = compareValues(valueA, valueB);
+    // Les valeurs vides restent en fin de liste quel que soit le sens
+    if (isEmpty(valueA) || isEmpty(valueB)) return order || a.index - b.index;
+    return order * factor || a.index - b.index;
+  });
+}
+
+// Ordre des colonnes : ordre choisi puis nouvelles colonnes du résultat
+export function orderColumns(columns: string[], order: string[]): string[] {
+  const available = new Set(columns);
+  const ordered = order.filter(column => available.has(column));
+  const placed = new Set(ordered);
+  return [...ordered, ...columns.filter(column => !placed.has(column))];
+}
+
+export function moveColumn(order: string[], column: string, target: string): string[] {
+  if (column === target) return order;
+  const without = order.filter(c => c !== column);
+  const position = without.indexOf(target);
+  if (position === -1) return order;
+  // Déposer après la cible si on déplace vers la droite
+  const insertAt = order.indexOf(column) < order.indexOf(target) ? position + 1 : position;
+  return [...without.slice(0, insertAt), column, ...without.slice(insertAt)];
+}
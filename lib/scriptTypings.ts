@@ -0,0 +1,70 @@
+import { SERVICE_KEYS } from './declarativeSchema';
+
+// Déclarations fournies à l'éditeur de scripts (autocomplétion et vérification de types)
+// À maintenir avec Service (types.ts) et DataUtils (dataUtils.ts)
+
+export const SCRIPT_TYPINGS_PATH = 'ts:foncix/globals.d.ts';
+
+export const SCRIPT_TYPINGS = `
+/** Service public du catalogue */
+interface Service {
+  name: string;
+  id: string;
+  categories: string[];
+  description: string;
+  status: 'Actif' | 'Inactif';
+  isActive: boolean;
+  institutionId: string;
+  icon: string | null;
+  url?: string;
+  /** Nom résolu à partir des métadonnées d'institutions */
+  institutionName?: string;
+}
+
+type ServiceKeys = ${SERVICE_KEYS.map(key => `'${key}'`).join(' | ')};
+
+/** Taxonomie des catégories : alias / fusions et catégorie parente */
+interface CategoryTaxonomy {
+  version: 1;
+  aliases: Record<string, string>;
+  parents: Record<string, string>;
+}
+
+interface ServiceStats {
+  total: number;
+  active: number;
+  withUrl: number;
+  categories: number;
+}
+
+declare const DataUtils: {
+  /** Sélectionner des clés */
+  formatServicesByKeys<K extends ServiceKeys>(services: Service[], keys: K[]): Pick<Service, K>[];
+  /** Filtrer par catégorie exacte, sous-catégories comprises (taxonomie enregistrée par défaut) */
+  filterByCategory(services: Service[], category: string, taxonomy?: CategoryTaxonomy): Service[];
+  /** Filtrer par statut */
+  filterByStatus(services: Service[], status: 'Actif' | 'Inactif' | 'all'): Service[];
+  /** Recherche classée par pertinence : "expression exacte", cat:..., name:..., desc:... */
+  searchServices(services: Service[], query: string): Service[];
+  /** Filtre booléen : 'cat = "État civil" AND NOT has:url' */
+  filterByExpression(services: Service[], expression: string | object): Service[];
+  /** Grouper par catégorie, services repris dans les catégories parentes (taxonomie enregistrée par défaut) */
+  groupByCategory(services: Service[], taxonomy?: CategoryTaxonomy): Record<string, Service[]>;
+  /** Grouper par institution (clé : institutionId) */
+  groupByInstitution(services: Service[]): Record<string, Service[]>;
+  /** Statistiques par institution, de la plus fournie à la moins fournie */
+  getInstitutionStats(services: Service[]): (ServiceStats & { institutionId: string; institutionName: string | null })[];
+  /** Statistiques, catégories comptées après alias (taxonomie enregistrée par défaut) */
+  getStats(services: Service[], taxonomy?: CategoryTaxonomy): ServiceStats;
+  /** Restructurer : chaque champ reçoit une clé de Service ou une fonction */
+  restructureServices<T extends Record<string, any>>(
+    services: Service[],
+    schema: { [K in keyof T]: ServiceKeys | ((service: Service) => T[K]) }
+  ): T[];
+  /** Export CSV */
+  exportToCSV(data: any[], options?: object): string;
+};
+
+/** Services filtrés, entrée du script */
+declare const services: Service[];
+`;
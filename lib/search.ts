@@ -0,0 +1,257 @@
+import type { Service } from './types';
+
+// Recherche indexée : sans accents, tolérante aux fautes de frappe, classée par pertinence
+
+export type SearchField = 'name' | 'description' | 'categories';
+
+export interface SearchTerm {
+  // Texte normalisé
+  text: string;
+  // Expression entre guillemets, cherchée telle quelle
+  phrase: boolean;
+  // Champ imposé par un préfixe (cat:, name:...)
+  field?: SearchField;
+}
+
+export interface SearchHit {
+  service: Service;
+  score: number;
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  // Mots et expressions à surligner (normalisés)
+  highlights: string[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+interface IndexedField {
+  text: string;
+  tokens: Set<string>;
+}
+
+interface SearchIndex {
+  docs: { service: Service; fields: Record<SearchField, IndexedField> }[];
+  vocabulary: string[];
+}
+
+const SEARCH_FIELDS: SearchField[] = ['name', 'categories', 'description'];
+
+// Poids des champs dans le score
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  categories: 2,
+  description: 1,
+};
+
+const FIELD_PREFIXES: Record<string, SearchField> = {
+  name: 'name',
+  nom: 'name',
+  cat: 'categories',
+  categorie: 'categories',
+  categories: 'categories',
+  desc: 'description',
+  description: 'description',
+};
+
+export const normalizeSearchText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const tokenize = (text: string) => normalizeSearchText(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+// Nombre de fautes tolérées selon la longueur du mot
+const maxTypos = (length: number) => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+// Distance d'édition (transpositions comprises), interrompue au-delà de max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Analyse de la requête : mots, "expressions exactes", préfixes de champ
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const pattern = /(?:([\p{L}]+):)?(?:"([^"]*)"?|(\S+))/gu;
+
+  for (const match of query.matchAll(pattern)) {
+    const [raw, prefix, quoted, bare] = match;
+    const field = prefix ? FIELD_PREFIXES[normalizeSearchText(prefix)] : undefined;
+    // Préfixe inconnu : le texte complet est cherché
+    const value = prefix && !field ? raw : quoted ?? bare ?? '';
+
+    if (quoted !== undefined && (field || !prefix)) {
+      const text = tokenize(value).join(' ');
+      if (text) terms.push({ text, phrase: true, field });
+      continue;
+    }
+
+    const tokens = tokenize(value);
+    tokens
+      .filter(token => token.length > 1 || tokens.length === 1)
+      .forEach(token => terms.push({ text: token, phrase: false, field }));
+  }
+
+  return terms;
+}
+
+const indexCache = new WeakMap<Service[], SearchIndex>();
+
+export function buildSearchIndex(services: Service[]): SearchIndex {
+  const cached = indexCache.get(services);
+  if (cached) return cached;
+
+  const vocabulary = new Set<string>();
+  const docs = services.map(service => {
+    const values: Record<SearchField, string> = {
+      name: service.name ?? '',
+      description: service.description ?? '',
+      categories: (service.categories ?? []).join(' | '),
+    };
+    const fields = {} as Record<SearchField, IndexedField>;
+    SEARCH_FIELDS.forEach(field => {
+      const tokens = tokenize(values[field]);
+      tokens.forEach(token => vocabulary.add(token));
+      fields[field] = { text: tokens.join(' '), tokens: new Set(tokens) };
+    });
+    return { service, fields };
+  });
+
+  const index = { docs, vocabulary: [...vocabulary] };
+  indexCache.set(services, index);
+  return index;
+}
+
+// Mots du vocabulaire correspondant à un terme, avec leur qualité (1 = exact)
+function matchVocabulary(term: string, vocabulary: string[]): Map<string, number> {
+  const matches = new Map<string, number>();
+  const typos = maxTypos(term.length);
+  vocabulary.forEach(word => {
+    if (word === term) {
+      matches.set(word, 1);
+    } else if (term.length >= 2 && word.startsWith(term)) {
+      matches.set(word, 0.75);
+    } else if (typos > 0) {
+      const distance = editDistance(term, word, typos);
+      if (distance <= typos) matches.set(word, 0.6 - 0.15 * (distance - 1));
+    }
+  });
+  return matches;
+}
+
+export function searchServices(services: Service[], query: string): SearchResult {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) {
+    return { hits: services.map(service => ({ service, score: 0 })), highlights: [] };
+  }
+
+  const index = buildSearchIndex(services);
+  const highlights = new Set<string>();
+  const matchers = terms.map(term => {
+    if (term.phrase) {
+      highlights.add(term.text);
+      return { term, words: null };
+    }
+    return { term, words: matchVocabulary(term.text, index.vocabulary) };
+  });
+
+  const hits: SearchHit[] = [];
+  index.docs.forEach(doc => {
+    let score = 0;
+    const matched: string[] = [];
+
+    const allTermsMatch = matchers.every(({ term, words }) => {
+      let best = 0;
+      let bestWord: string | null = null;
+      (term.field ? [term.field] : SEARCH_FIELDS).forEach(field => {
+        const indexed = doc.fields[field];
+        if (words === null) {
+          const padded = ` ${indexed.text} `;
+          if (padded.includes(` ${term.text} `)) best = Math.max(best, FIELD_WEIGHTS[field] * 1.5);
+          return;
+        }
+        indexed.tokens.forEach(token => {
+          const quality = words.get(token);
+          if (quality && FIELD_WEIGHTS[field] * quality > best) {
+            best = FIELD_WEIGHTS[field] * quality;
+            bestWord = token;
+          }
+        });
+      });
+      if (bestWord) matched.push(bestWord);
+      score += best;
+      return best > 0;
+    });
+
+    if (allTermsMatch) {
+      matched.forEach(word => highlights.add(word));
+      hits.push({ service: doc.service, score });
+    }
+  });
+
+  // Tri stable : à score égal, l'ordre d'origine est conservé
+  hits.sort((a, b) => b.score - a.score);
+  return { hits, highlights: [...highlights] };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Découper un texte en segments surlignés ou non (correspondances en début de mot)
+export function highlightText(text: string, highlights: string[]): HighlightSegment[] {
+  if (!text || highlights.length === 0) return [{ text, match: false }];
+
+  // Texte normalisé caractère par caractère pour retrouver les positions d'origine
+  let normalized = '';
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = normalizeSearchText(text[i]);
+    for (let k = 0; k < char.length; k++) {
+      normalized += char[k];
+      origin.push(i);
+    }
+  }
+  origin.push(text.length);
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  highlights.forEach(term => {
+    // Les espaces d'une expression correspondent à toute ponctuation
+    const pattern = new RegExp(`(?<![a-z0-9])${term.split(' ').map(escapeRegExp).join('[^a-z0-9]+')}`, 'g');
+    for (const match of normalized.matchAll(pattern)) {
+      const start = origin[match.index];
+      const end = origin[match.index + match[0].length];
+      for (let i = start; i < end; i++) marked[i] = true;
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match: marked[i] });
+    }
+  }
+  return segments;
+}
@@ -0,0 +1,220 @@
+import type { Service } from './types';
+import type { ApiValidationReport } from './validation';
+
+// Corrections saisies dans la vue tableau : historique (annuler / rétablir) et export
+
+export type EditableField = 'name' | 'description' | 'categories' | 'status' | 'isActive' | 'url' | 'icon';
+
+export const EDITABLE_FIELDS: EditableField[] = ['name', 'description', 'categories', 'status', 'isActive', 'url', 'icon'];
+
+// Valeur absente (url, icon vides) : undefined
+export interface FieldEdit {
+  field: EditableField;
+  before: unknown;
+  after: unknown;
+}
+
+// Une saisie : plusieurs champs quand status et isActive vont ensemble
+export interface ServiceEdit {
+  serviceId: string;
+  serviceName: string;
+  changes: FieldEdit[];
+  at: string;
+}
+
+export interface EditHistory {
+  done: ServiceEdit[];
+  // Saisies annulées, rétablissables jusqu'à la prochaine modification
+  undone: ServiceEdit[];
+}
+
+// Opération JSON Patch (RFC 6902)
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'test';
+  path: string;
+  value?: unknown;
+}
+
+// Document visé par le JSON Patch : celui reçu au chargement, avant validation
+export interface PatchTarget {
+  // Pointeur JSON de la liste des services ('' si le document est la liste)
+  listPointer: string;
+  // Position d'origine de chaque service retenu, par id
+  positions: Map<string, number>;
+}
+
+// Séparateur des catégories dans la saisie
+export const CATEGORY_SEPARATOR = ';';
+
+export function emptyHistory(): EditHistory {
+  return { done: [], undone: [] };
+}
+
+export function patchTargetFromReport(report: ApiValidationReport): PatchTarget {
+  return {
+    listPointer: report.listPointer,
+    positions: new Map(report.valid.map((service, index) => [service.id, report.positions[index]])),
+  };
+}
+
+export function isEditableField(column: string): column is EditableField {
+  return (EDITABLE_FIELDS as string[]).includes(column);
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Texte proposé dans l'éditeur de cellule
+export function formatFieldInput(field: EditableField, value: unknown): string {
+  if (field === 'categories') return Array.isArray(value) ? value.join(`${CATEGORY_SEPARATOR} `) : '';
+  if (field === 'isActive') return value ? 'true' : 'false';
+  return value === null || value === undefined ? '' : String(value);
+}
+
+// Choix proposés pour les champs à valeurs fixes
+export function fieldChoices(field: EditableField): { value: string; label: string }[] | null {
+  if (field === 'status') return [{ value: 'Actif', label: 'Actif' }, { value: 'Inactif', label: 'Inactif' }];
+  if (field === 'isActive') return [{ value: 'true', label: 'Oui' }, { value: 'false', label: 'Non' }];
+  return null;
+}
+
+// Valeur d'un champ à partir de la saisie, avec les règles de la validation au chargement
+export function parseFieldInput(field: EditableField, text: string): unknown {
+  const value = text.trim();
+  switch (field) {
+    case 'name':
+      if (!value) throw new Error('Le nom du service ne peut pas être vide');
+      return value;
+    case 'description':
+      return value;
+    case 'categories':
+      return [...new Set(value.split(CATEGORY_SEPARATOR).map(category => category.trim()).filter(Boolean))];
+    case 'status':
+      if (value !== 'Actif' && value !== 'Inactif') throw new Error('Statut attendu : Actif ou Inactif');
+      return value;
+    case 'isActive':
+      return value === 'true';
+    case 'url':
+      if (value && !/^https?:\/\//i.test(value)) throw new Error('L\'URL doit commencer par http:// ou https://');
+      return value || undefined;
+    case 'icon':
+      return value || null;
+  }
+}
+
+// Saisie d'un champ ; status et isActive restent cohérents. null si rien ne change
+export function createEdit(service: Service, field: EditableField, value: unknown): ServiceEdit | null {
+  const targets: Partial<Record<EditableField, unknown>> = { [field]: value };
+  if (field === 'status') targets.isActive = value === 'Actif';
+  if (field === 'isActive') targets.status = value ? 'Actif' : 'Inactif';
+
+  const changes = (Object.entries(targets) as [EditableField, unknown][])
+    .map(([name, after]) => ({ field: name, before: service[name], after }))
+    .filter(change => !sameValue(change.before, change.after));
+
+  if (changes.length === 0) return null;
+  return { serviceId: service.id, serviceName: service.name, changes, at: new Date().toISOString() };
+}
+
+export function recordEdit(history: EditHistory, edit: ServiceEdit): EditHistory {
+  return { done: [...history.done, edit], undone: [] };
+}
+
+export function undoEdit(history: EditHistory): EditHistory {
+  const last = history.done[history.done.length - 1];
+  if (!last) return history;
+  return { done: history.done.slice(0, -1), undone: [last, ...history.undone] };
+}
+
+export function redoEdit(history: EditHistory): EditHistory {
+  const [next, ...rest] = history.undone;
+  if (!next) return history;
+  return { done: [...history.done, next], undone: rest };
+}
+
+function setField(service: Service, field: EditableField, value: unknown): Service {
+  const next = { ...service } as Record<string, unknown>;
+  if (value === undefined) delete next[field];
+  else next[field] = value;
+  return next as unknown as Service;
+}
+
+// Services corrigés (tableau inchangé sans modification)
+export function applyEdits(services: Service[], edits: ServiceEdit[]): Service[] {
+  if (edits.length === 0) return services;
+  const byId = new Map<string, FieldEdit[]>();
+  edits.forEach(edit => byId.set(edit.serviceId, [...(byId.get(edit.serviceId) ?? []), ...edit.changes]));
+
+  return services.map(service => {
+    const changes = byId.get(service.id);
+    return changes ? changes.reduce((current, change) => setField(current, change.field, change.after), service) : service;
+  });
+}
+
+// Champ d'une ligne de résultat recopié tel quel du service source (modifiable dans le tableau)
+export function isPassThroughCell(row: unknown, service: Service | undefined, column: string): column is EditableField {
+  if (!service || !isEditableField(column) || !row || typeof row !== 'object' || Array.isArray(row)) return false;
+  const values = row as Record<string, unknown>;
+  return column in values && sameValue(values[column], service[column]);
+}
+
+// Reporter sur un résultat déjà calculé les valeurs courantes des champs recopiés tels quels
+export function reflectEdits(result: unknown, resultServices: Service[], current: Map<string, Service>): unknown {
+  if (!Array.isArray(result) || result.length !== resultServices.length) return result;
+  let changed = false;
+  const rows = result.map((row, index) => {
+    const source = resultServices[index];
+    const latest = current.get(source.id);
+    if (!latest || latest === source) return row;
+    const updates = EDITABLE_FIELDS.filter(field => isPassThroughCell(row, source, field) && !sameValue(source[field], latest[field]));
+    if (updates.length === 0) return row;
+    changed = true;
+    return updates.reduce<Record<string, unknown>>((next, field) => ({ ...next, [field]: latest[field] ?? null }), { ...row });
+  });
+  return changed ? rows : result;
+}
+
+// Modifications nettes par service et par champ (valeur d'origine → dernière valeur)
+export function netChanges(edits: ServiceEdit[]): (FieldEdit & { serviceId: string; serviceName: string })[] {
+  const net = new Map<string, FieldEdit & { serviceId: string; serviceName: string }>();
+  edits.forEach(edit => {
+    edit.changes.forEach(change => {
+      const key = `${edit.serviceId}\u0000${change.field}`;
+      const previous = net.get(key);
+      net.set(key, {
+        serviceId: edit.serviceId,
+        serviceName: edit.serviceName,
+        field: change.field,
+        before: previous ? previous.before : change.before,
+        after: change.after,
+      });
+    });
+  });
+  return [...net.values()].filter(change => !sameValue(change.before, change.after));
+}
+
+// Segment de chemin JSON Pointer (RFC 6901)
+const pointerSegment = (segment: string) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+// JSON Patch applicable au document d'origine (liste ou { services: [...] }), aux positions
+// reçues : par service, test de l'id puis de chaque ancienne valeur avant son remplacement.
+// Les valeurs testées sont celles après normalisation (statut aligné, id numérique en texte…)
+export function buildJsonPatch(target: PatchTarget, edits: ServiceEdit[]): JsonPatchOperation[] {
+  const byService = new Map<string, FieldEdit[]>();
+  netChanges(edits).forEach(({ serviceId, ...change }) => {
+    byService.set(serviceId, [...(byService.get(serviceId) ?? []), change]);
+  });
+
+  return [...byService].flatMap(([serviceId, changes]): JsonPatchOperation[] => {
+    const index = target.positions.get(serviceId);
+    if (index === undefined) return [];
+    const base = `${target.listPointer}/${index}`;
+    const operations: JsonPatchOperation[] = [{ op: 'test', path: `${base}/id`, value: serviceId }];
+    changes.forEach(({ field, before, after }) => {
+      const path = `${base}/${pointerSegment(field)}`;
+      if (before !== undefined) operations.push({ op: 'test', path, value: before });
+      if (after === undefined) operations.push({ op: 'remove', path });
+      else operations.push({ op: before === undefined ? 'add' : 'replace', path, value: after });
+    });
+    return operations;
+  });
+}
@@ -0,0 +1,79 @@
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string';
+import { isEmptyFilter } from './filterExpression';
+import { DEFAULT_SETTINGS, parseSettings, type TransformSettings } from './presets';
+
+// État du transformateur encodé dans l'URL (fragment #s=...)
+
+export type DataSource = 'api' | 'manual';
+
+export interface ShareState extends TransformSettings {
+  dataSource: DataSource;
+  // Instantané archivé chargé (source API)
+  snapshotId?: string;
+}
+
+const HASH_PREFIX = '#s=';
+
+// Ne conserver que ce qui diffère des réglages initiaux, pour des liens courts
+function compact(state: ShareState): Record<string, unknown> {
+  const payload: Record<string, unknown> = { v: 1 };
+  const filters: Record<string, unknown> = {};
+
+  if (state.dataSource !== 'api') payload.dataSource = state.dataSource;
+  if (state.snapshotId) payload.snapshotId = state.snapshotId;
+
+  (['transformMode', 'customEditor', 'customSchema', 'viewMode'] as const).forEach(key => {
+    if (state[key] !== DEFAULT_SETTINGS[key]) payload[key] = state[key];
+  });
+  if (state.selectedKeys.join(',') !== DEFAULT_SETTINGS.selectedKeys.join(',')) {
+    payload.selectedKeys = state.selectedKeys;
+  }
+  if (state.declarativeSchema.fields.length > 0) payload.declarativeSchema = state.declarativeSchema;
+  if (state.pipeline.steps.length > 0) payload.pipeline = state.pipeline;
+
+  if (state.filters.searchQuery) filters.searchQuery = state.filters.searchQuery;
+  if (state.filters.selectedCategories.length > 0) filters.selectedCategories = state.filters.selectedCategories;
+  if (state.filters.categoryMatch !== 'exact') filters.categoryMatch = state.filters.categoryMatch;
+  if (state.filters.selectedInstitutions.length > 0) filters.selectedInstitutions = state.filters.selectedInstitutions;
+  if (state.filters.statusFilter !== 'all') filters.statusFilter = state.filters.statusFilter;
+  if (!isEmptyFilter(state.filters.expression)) filters.expression = state.filters.expression;
+  if (Object.keys(filters).length > 0) payload.filters = filters;
+
+  return payload;
+}
+
+export function encodeShareState(state: ShareState): string {
+  return compressToEncodedURIComponent(JSON.stringify(compact(state)));
+}
+
+export function decodeShareState(encoded: string): ShareState | null {
+  try {
+    const json = decompressFromEncodedURIComponent(encoded);
+    if (!json) return null;
+    const raw = JSON.parse(json);
+    if (!raw || typeof raw !== 'object' || raw.v !== 1) return null;
+
+    return {
+      ...parseSettings({
+        ...DEFAULT_SETTINGS,
+        ...raw,
+        filters: { ...DEFAULT_SETTINGS.filters, ...raw.filters },
+      }),
+      dataSource: raw.dataSource === 'manual' ? 'manual' : 'api',
+      snapshotId: typeof raw.snapshotId === 'string' ? raw.snapshotId : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function readShareStateFromHash(hash: string): { encoded: string; state: ShareState } | null {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  const encoded = hash.slice(HASH_PREFIX.length);
+  const state = decodeShareState(encoded);
+  return state ? { encoded, state } : null;
+}
+
+export function buildShareHash(encoded: string): string {
+  return `${HASH_PREFIX}${encoded}`;
+}
@@ -0,0 +1,127 @@
+import { writeCsv } from './csv';
+import type { Service, ServiceKeys } from './types';
+
+// Comparaison de deux jeux de services, appariés par id
+
+export type ChangeType = 'added' | 'removed' | 'deactivated' | 'reactivated' | 'renamed' | 'recategorized' | 'modified';
+
+export const CHANGE_TYPES: ChangeType[] = [
+  'added', 'removed', 'deactivated', 'reactivated', 'renamed', 'recategorized', 'modified',
+];
+
+export interface FieldChange {
+  field: ServiceKeys;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ServiceChange {
+  id: string;
+  name: string;
+  types: ChangeType[];
+  // Vide pour les services ajoutés / supprimés
+  fields: FieldChange[];
+  before?: Service;
+  after?: Service;
+}
+
+export interface ServiceDiff {
+  changes: ServiceChange[];
+  summary: Record<ChangeType, number>;
+  unchanged: number;
+  beforeCount: number;
+  afterCount: number;
+}
+
+// Champs comparés (institutionName est déduit, pas comparé)
+export const DIFF_FIELDS: ServiceKeys[] = [
+  'name', 'categories', 'description', 'status', 'isActive', 'institutionId', 'icon', 'url',
+];
+
+// L'ordre des catégories n'est pas significatif
+function sameValue(field: ServiceKeys, a: unknown, b: unknown): boolean {
+  if (field === 'categories' && Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && [...a].sort().join('\u0000') === [...b].sort().join('\u0000');
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+function changeTypes(fields: FieldChange[]): ChangeType[] {
+  const types = new Set<ChangeType>();
+  fields.forEach(({ field, before, after }) => {
+    if (field === 'name') types.add('renamed');
+    else if (field === 'categories') types.add('recategorized');
+    else if (field === 'isActive') types.add(after ? 'reactivated' : before ? 'deactivated' : 'modified');
+    else types.add('modified');
+  });
+  return CHANGE_TYPES.filter(type => types.has(type));
+}
+
+// Premier service rencontré pour chaque id
+function indexById(services: Service[]): Map<string, Service> {
+  const byId = new Map<string, Service>();
+  services.forEach(service => {
+    if (!byId.has(service.id)) byId.set(service.id, service);
+  });
+  return byId;
+}
+
+export function diffServices(before: Service[], after: Service[]): ServiceDiff {
+  const beforeById = indexById(before);
+  const afterById = indexById(after);
+  const changes: ServiceChange[] = [];
+  let unchanged = 0;
+
+  beforeById.forEach((previous, id) => {
+    const next = afterById.get(id);
+    if (!next) {
+      changes.push({ id, name: previous.name, types: ['removed'], fields: [], before: previous });
+      return;
+    }
+    const fields = DIFF_FIELDS
+      .filter(field => !sameValue(field, previous[field], next[field]))
+      .map(field => ({ field, before: previous[field], after: next[field] }));
+    if (fields.length === 0) {
+      unchanged++;
+      return;
+    }
+    changes.push({ id, name: next.name, types: changeTypes(fields), fields, before: previous, after: next });
+  });
+
+  afterById.forEach((next, id) => {
+    if (!beforeById.has(id)) {
+      changes.push({ id, name: next.name, types: ['added'], fields: [], after: next });
+    }
+  });
+
+  const summary = Object.fromEntries(CHANGE_TYPES.map(type => [type, 0])) as Record<ChangeType, number>;
+  changes.forEach(change => change.types.forEach(type => summary[type]++));
+
+  return { changes, summary, unchanged, beforeCount: beforeById.size, afterCount: afterById.size };
+}
+
+// Garder les changements d'au moins un des types demandés (tous si la liste est vide)
+export function filterChanges(changes: ServiceChange[], types: ChangeType[]): ServiceChange[] {
+  if (types.length === 0) return changes;
+  return changes.filter(change => change.types.some(type => types.includes(type)));
+}
+
+export function diffToJson(diff: ServiceDiff, changes: ServiceChange[] = diff.changes): string {
+  return JSON.stringify({
+    summary: diff.summary,
+    unchanged: diff.unchanged,
+    beforeCount: diff.beforeCount,
+    afterCount: diff.afterCount,
+    changes,
+  }, null, 2);
+}
+
+// Une ligne par champ modifié ; une ligne par service ajouté ou supprimé
+export function diffToCsv(changes: ServiceChange[]): string {
+  const rows = changes.flatMap((change): Record<string, unknown>[] => {
+    const base = { id: change.id, name: change.name, types: change.types.join(' ') };
+    if (change.fields.length === 0) return [{ ...base, field: '', before: '', after: '' }];
+    return change.fields.map(({ field, before, after }) => ({ ...base, field, before, after }));
+  });
+  return writeCsv(rows, { flatten: false });
+}
@@ -0,0 +1,219 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CatalogueError, fetchInstitutions, requestCatalogue, type CatalogueOptions } from './catalogue';
+import type { ApiResponse, CatalogueResponse, InstitutionsResponse, SnapshotInfo } from './types';
+
+// Cache disque du catalogue : instantanés datés + revalidation conditionnelle
+
+const DEFAULT_TTL_SECONDS = 3600;
+const DEFAULT_SNAPSHOT_LIMIT = 30;
+const INDEX_FILE = 'index.json';
+const INSTITUTIONS_FILE = 'institutions.json';
+
+interface SnapshotFile {
+  info: SnapshotInfo;
+  data: ApiResponse;
+}
+
+export function getSnapshotDir(): string {
+  return process.env.FONCIX_SNAPSHOT_DIR || path.join(process.cwd(), '.data', 'snapshots');
+}
+
+function getTtlMs(): number {
+  const ttl = Number(process.env.FONCIX_CACHE_TTL_SECONDS);
+  return (Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+function getSnapshotLimit(): number {
+  return Number(process.env.FONCIX_SNAPSHOT_LIMIT) || DEFAULT_SNAPSHOT_LIMIT;
+}
+
+// Variante de requête (les options changent le contenu de la réponse)
+export function getVariant(options: CatalogueOptions): string {
+  return [options.categories && 'categories', options.eservices && 'eservices'].filter(Boolean).join('+') || 'base';
+}
+
+export function isValidSnapshotId(id: string): boolean {
+  return /^[\w-]+$/.test(id);
+}
+
+// Fichier temporaire propre à chaque écriture : plusieurs requêtes peuvent écrire le même fichier
+async function writeJson(file: string, value: unknown) {
+  const tmp = `${file}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tmp, JSON.stringify(value));
+    await fs.rename(tmp, file);
+  } catch (err) {
+    await fs.rm(tmp, { force: true });
+    throw err;
+  }
+}
+
+// Lectures-modifications de l'index exécutées l'une après l'autre dans ce processus
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+function updateIndex<T>(task: () => Promise<T>): Promise<T> {
+  const run = indexQueue.then(task);
+  indexQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function readIndex(): Promise<SnapshotInfo[]> {
+  try {
+    const raw = await fs.readFile(path.join(getSnapshotDir(), INDEX_FILE), 'utf8');
+    const index = JSON.parse(raw);
+    return Array.isArray(index) ? index : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeIndex(index: SnapshotInfo[]) {
+  await writeJson(path.join(getSnapshotDir(), INDEX_FILE), index);
+}
+
+// Lister les instantanés (du plus récent au plus ancien)
+export async function listSnapshots(variant?: string): Promise<SnapshotInfo[]> {
+  const index = await readIndex();
+  return index
+    .filter(info => !variant || info.variant === variant)
+    .sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt));
+}
+
+export async function readSnapshot(id: string): Promise<SnapshotFile | null> {
+  if (!isValidSnapshotId(id)) return null;
+  try {
+    const raw = await fs.readFile(path.join(getSnapshotDir(), `${id}.json`), 'utf8');
+    return JSON.parse(raw) as SnapshotFile;
+  } catch {
+    return null;
+  }
+}
+
+function createSnapshotInfo(
+  variant: string,
+  data: ApiResponse,
+  etag: string | null,
+  lastModified: string | null
+): SnapshotInfo {
+  const now = new Date().toISOString();
+  return {
+    id: `${now.replace(/[:.]/g, '-')}-${variant.replace(/\+/g, '-')}`,
+    variant,
+    fetchedAt: now,
+    checkedAt: now,
+    etag,
+    lastModified,
+    serviceCount: data.services.length,
+    categoryCount: data.categories?.length ?? 0,
+  };
+}
+
+async function saveSnapshot(info: SnapshotInfo, data: ApiResponse) {
+  const dir = getSnapshotDir();
+  await fs.mkdir(dir, { recursive: true });
+
+  await writeJson(path.join(dir, `${info.id}.json`), { info, data } satisfies SnapshotFile);
+
+  // Purger les instantanés les plus anciens de cette variante
+  await updateIndex(async () => {
+    const index = [info, ...(await readIndex())];
+    const sameVariant = index
+      .filter(s => s.variant === info.variant)
+      .sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt));
+    const expired = new Set(sameVariant.slice(getSnapshotLimit()).map(s => s.id));
+    await Promise.all(
+      [...expired].map(id => fs.rm(path.join(dir, `${id}.json`), { force: true }))
+    );
+    await writeIndex(index.filter(s => !expired.has(s.id)));
+  });
+}
+
+async function touchSnapshot(info: SnapshotInfo): Promise<SnapshotInfo> {
+  const updated = { ...info, checkedAt: new Date().toISOString() };
+  await updateIndex(async () => {
+    const index = await readIndex();
+    await writeIndex(index.map(s => (s.id === info.id ? updated : s)));
+  });
+  return updated;
+}
+
+// Charger le catalogue en passant par le cache
+export async function getCachedCatalogue(
+  options: CatalogueOptions = {},
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<CatalogueResponse> {
+  const variant = getVariant(options);
+  const [latest] = await listSnapshots(variant);
+  const cached = latest ? await readSnapshot(latest.id) : null;
+
+  if (cached && !refresh && Date.now() - Date.parse(cached.info.checkedAt) < getTtlMs()) {
+    return { ...cached.data, snapshot: { ...cached.info, source: 'cache', stale: false } };
+  }
+
+  try {
+    const result = await requestCatalogue(
+      options,
+      cached ? { etag: cached.info.etag, lastModified: cached.info.lastModified } : {}
+    );
+
+    if (result.status === 'not-modified') {
+      if (!cached) {
+        throw new CatalogueError('UPSTREAM_HTTP', 'Réponse 304 inattendue sans instantané local');
+      }
+      const info = await touchSnapshot(cached.info);
+      return { ...cached.data, snapshot: { ...info, source: 'revalidated', stale: false } };
+    }
+
+    const info = createSnapshotInfo(variant, result.data, result.etag, result.lastModified);
+    try {
+      await saveSnapshot(info, result.data);
+    } catch (err) {
+      // Cache non inscriptible (disque en lecture seule…) : la réponse du portail reste servie
+      console.error('Instantané non enregistré:', err);
+      return { ...result.data, snapshot: { ...info, source: 'upstream', stale: false, cached: false } };
+    }
+    return { ...result.data, snapshot: { ...info, source: 'upstream', stale: false } };
+  } catch (err) {
+    // Repli sur le dernier instantané valide
+    if (cached && err instanceof CatalogueError) {
+      console.warn(`Portail indisponible (${err.code}), repli sur l'instantané ${cached.info.id}`);
+      return {
+        ...cached.data,
+        snapshot: { ...cached.info, source: 'fallback', stale: true, warning: err.message },
+      };
+    }
+    throw err;
+  }
+}
+
+// Institutions : un seul fichier en cache, même durée de validité que le catalogue
+export async function getCachedInstitutions(
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<InstitutionsResponse> {
+  const file = path.join(getSnapshotDir(), INSTITUTIONS_FILE);
+  let cached: Omit<InstitutionsResponse, 'source'> | null = null;
+  try {
+    cached = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    cached = null;
+  }
+
+  if (cached && !refresh && Date.now() - Date.parse(cached.fetchedAt) < getTtlMs()) {
+    return { ...cached, source: 'cache' };
+  }
+
+  try {
+    const fresh = { institutions: await fetchInstitutions(), fetchedAt: new Date().toISOString() };
+    await fs.mkdir(getSnapshotDir(), { recursive: true });
+    await writeJson(file, fresh);
+    return { ...fresh, source: 'upstream' };
+  } catch (err) {
+    if (cached && err instanceof CatalogueError) {
+      console.warn(`Institutions indisponibles (${err.code}), repli sur le cache du ${cached.fetchedAt}`);
+      return { ...cached, source: 'fallback' };
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,200 @@
+import type { Service } from './types';
+
+// Taxonomie des catégories : alias / fusions et hiérarchie parent → enfants
+
+export interface CategoryTaxonomy {
+  version: 1;
+  // Alias et fusions : catégorie reçue → catégorie retenue
+  aliases: Record<string, string>;
+  // Hiérarchie : catégorie → catégorie parente
+  parents: Record<string, string>;
+}
+
+// Filtre par catégorie : catégorie seule, ou avec ses sous-catégories
+export type CategoryMatch = 'exact' | 'descendants';
+
+export interface CategoryTreeEntry {
+  name: string;
+  depth: number;
+}
+
+const STORAGE_KEY = 'foncix.taxonomy.v1';
+
+export function emptyTaxonomy(): CategoryTaxonomy {
+  return { version: 1, aliases: {}, parents: {} };
+}
+
+export function isEmptyTaxonomy(taxonomy: CategoryTaxonomy): boolean {
+  return Object.keys(taxonomy.aliases).length === 0 && Object.keys(taxonomy.parents).length === 0;
+}
+
+// Catégorie retenue après alias (chaînes suivies, cycles ignorés)
+export function resolveCategory(taxonomy: CategoryTaxonomy, name: string): string {
+  const seen = new Set<string>();
+  let current = name;
+  while (Object.prototype.hasOwnProperty.call(taxonomy.aliases, current) && !seen.has(current)) {
+    seen.add(current);
+    current = taxonomy.aliases[current];
+  }
+  return current;
+}
+
+// Parentes de la plus proche à la racine
+export function categoryAncestors(taxonomy: CategoryTaxonomy, name: string): string[] {
+  const ancestors: string[] = [];
+  let current = taxonomy.parents[resolveCategory(taxonomy, name)];
+  while (current && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = taxonomy.parents[current];
+  }
+  return ancestors;
+}
+
+// Catégorie et toutes ses sous-catégories
+export function categoryDescendants(taxonomy: CategoryTaxonomy, name: string): string[] {
+  const root = resolveCategory(taxonomy, name);
+  const result = [root];
+  for (let i = 0; i < result.length; i++) {
+    Object.entries(taxonomy.parents).forEach(([child, parent]) => {
+      if (parent === result[i] && !result.includes(child)) result.push(child);
+    });
+  }
+  return result;
+}
+
+export function wouldCreateCycle(taxonomy: CategoryTaxonomy, child: string, parent: string): boolean {
+  return parent === child || categoryAncestors(taxonomy, parent).includes(child);
+}
+
+// Fusionner from dans to : alias, sous-catégories et parente reportés sur to
+export function mergeCategory(taxonomy: CategoryTaxonomy, from: string, to: string): CategoryTaxonomy {
+  const target = resolveCategory(taxonomy, to);
+  if (target === from) throw new Error(`« ${from} » ne peut pas être fusionnée avec elle-même`);
+
+  const aliases: Record<string, string> = {};
+  Object.entries(taxonomy.aliases).forEach(([alias, name]) => {
+    aliases[alias] = name === from ? target : name;
+  });
+  aliases[from] = target;
+
+  const parents: Record<string, string> = {};
+  Object.entries(taxonomy.parents).forEach(([child, parent]) => {
+    const next = parent === from ? target : parent;
+    if (child !== from && child !== next) parents[child] = next;
+  });
+  const inherited = taxonomy.parents[from];
+  if (inherited && !parents[target] && !wouldCreateCycle({ version: 1, aliases, parents }, target, inherited)) {
+    parents[target] = inherited;
+  }
+  return { version: 1, aliases, parents };
+}
+
+export function removeAlias(taxonomy: CategoryTaxonomy, alias: string): CategoryTaxonomy {
+  const aliases = { ...taxonomy.aliases };
+  delete aliases[alias];
+  return { ...taxonomy, aliases };
+}
+
+// Définir (ou retirer avec null) la parente d'une catégorie
+export function setCategoryParent(taxonomy: CategoryTaxonomy, child: string, parent: string | null): CategoryTaxonomy {
+  const parents = { ...taxonomy.parents };
+  if (!parent) {
+    delete parents[child];
+    return { ...taxonomy, parents };
+  }
+  const resolved = resolveCategory(taxonomy, parent);
+  if (wouldCreateCycle(taxonomy, child, resolved)) {
+    throw new Error(`« ${resolved} » est déjà une sous-catégorie de « ${child} »`);
+  }
+  parents[child] = resolved;
+  return { ...taxonomy, parents };
+}
+
+// Catégories des services renommées selon les alias (tableau inchangé sans taxonomie)
+export function applyTaxonomy(services: Service[], taxonomy: CategoryTaxonomy): Service[] {
+  if (Object.keys(taxonomy.aliases).length === 0) return services;
+  return services.map(service => {
+    const categories = [...new Set(service.categories.map(category => resolveCategory(taxonomy, category)))];
+    const changed = categories.length !== service.categories.length
+      || categories.some((category, index) => category !== service.categories[index]);
+    return changed ? { ...service, categories } : service;
+  });
+}
+
+// Catégories saisies sur leurs noms retenus, ramenées aux noms reçus d'un service :
+// une catégorie conservée garde le ou les noms d'origine qu'elle regroupait
+export function unresolveCategories(taxonomy: CategoryTaxonomy, edited: string[], original: string[]): string[] {
+  return [...new Set(edited.flatMap(name => {
+    const sources = original.filter(category => resolveCategory(taxonomy, category) === name);
+    return sources.length > 0 ? sources : [name];
+  }))];
+}
+
+// Catégories retenues, y compris les parentes absentes des données
+export function taxonomyCategories(categories: string[], taxonomy: CategoryTaxonomy): string[] {
+  const names = new Set(categories.map(category => resolveCategory(taxonomy, category)));
+  Object.values(taxonomy.parents).forEach(parent => names.add(parent));
+  return [...names];
+}
+
+// Liste ordonnée pour l'affichage : chaque catégorie suivie de ses sous-catégories
+export function buildCategoryTree(categories: string[], taxonomy: CategoryTaxonomy): CategoryTreeEntry[] {
+  const names = taxonomyCategories(categories, taxonomy);
+  const byName = (a: string, b: string) => a.localeCompare(b, 'fr');
+  const childrenOf = (parent: string | undefined) => names
+    .filter(name => (parent === undefined ? !names.includes(taxonomy.parents[name]) : taxonomy.parents[name] === parent))
+    .sort(byName);
+
+  const entries: CategoryTreeEntry[] = [];
+  const visit = (name: string, depth: number) => {
+    if (entries.some(entry => entry.name === name)) return;
+    entries.push({ name, depth });
+    childrenOf(name).forEach(child => visit(child, depth + 1));
+  };
+  childrenOf(undefined).forEach(name => visit(name, 0));
+  // Catégories prises dans un cycle (taxonomie modifiée à la main)
+  names.sort(byName).forEach(name => visit(name, 0));
+  return entries;
+}
+
+const isStringRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Vérifier une taxonomie issue de JSON (stockage local, fichier importé)
+export function parseTaxonomy(input: unknown): CategoryTaxonomy {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!isStringRecord(data)) {
+    throw new Error('Taxonomie invalide : objet { aliases, parents } attendu');
+  }
+
+  const readMap = (value: unknown, name: string): Record<string, string> => {
+    if (value === undefined) return {};
+    if (!isStringRecord(value)) throw new Error(`Taxonomie invalide : « ${name} » doit être un objet`);
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '' && entry[0] !== entry[1])
+        .map(([key, target]) => [key, target.trim()])
+    );
+  };
+
+  return { version: 1, aliases: readMap(data.aliases, 'aliases'), parents: readMap(data.parents, 'parents') };
+}
+
+export function loadStoredTaxonomy(): CategoryTaxonomy {
+  if (typeof window === 'undefined') return emptyTaxonomy();
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parseTaxonomy(raw) : emptyTaxonomy();
+  } catch (err) {
+    console.error('Taxonomie illisible dans le stockage local:', err);
+    return emptyTaxonomy();
+  }
+}
+
+export function saveStoredTaxonomy(taxonomy: CategoryTaxonomy) {
+  if (isEmptyTaxonomy(taxonomy)) {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } else {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(taxonomy));
+  }
+}
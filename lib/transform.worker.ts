@@ -0,0 +1,153 @@
+import { parse } from 'acorn';
+import { dataUtilsWithTaxonomy } from './dataUtils';
+import type { ScriptErrorInfo, TransformRequest, TransformResponse } from './transformSandbox';
+
+// Worker d'exécution des scripts personnalisés : aucun accès réseau ni DOM.
+// Construit en worker classique dans public/ (npm run build:worker). Les API réseau et
+// l'évaluation de code sont masquées à l'exécution ; la CSP du worker (en-têtes de
+// next.config.ts) interdit en plus toute connexion et tout script d'une autre origine.
+
+const SOURCE_URL = 'foncix-transform.js';
+
+const BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'WebSocketStream', 'WebTransport', 'EventSource',
+  'importScripts', 'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker',
+  'navigator', 'location', 'postMessage', 'close',
+];
+
+const reply = self.postMessage.bind(self);
+
+// Constructeur conservé pour compiler les scripts, avant son masquage ci-dessous
+const FunctionConstructor = Function;
+
+function blockedEval(): never {
+  throw new EvalError('L\'évaluation de code (eval, Function...) n\'est pas autorisée dans un script de transformation');
+}
+
+const lock = (target: object, name: string, value: unknown) => {
+  try {
+    Object.defineProperty(target, name, { value, writable: false, configurable: false });
+  } catch {
+    // Propriété non redéfinissable dans ce navigateur
+  }
+};
+
+// Masquer les API réseau et de communication avant toute exécution
+for (const name of BLOCKED_GLOBALS) {
+  lock(self, name, undefined);
+}
+
+// Fermer l'évaluation de code : eval, Function et les constructeurs atteignables par
+// (() => {}).constructor, DataUtils.constructor.constructor, async / générateurs...
+lock(self, 'eval', blockedEval);
+lock(self, 'Function', blockedEval);
+[
+  FunctionConstructor.prototype,
+  Object.getPrototypeOf(async function () {}),
+  Object.getPrototypeOf(function* () {}),
+  Object.getPrototypeOf(async function* () {}),
+].forEach(prototype => lock(prototype, 'constructor', blockedEval));
+
+// setTimeout('code') / setInterval('code') évaluent aussi une chaîne
+(['setTimeout', 'setInterval'] as const).forEach(name => {
+  const schedule = self[name].bind(self) as (handler: unknown, ...args: unknown[]) => number;
+  lock(self, name, (handler: unknown, ...args: unknown[]) =>
+    typeof handler === 'function' ? schedule(handler, ...args) : blockedEval()
+  );
+});
+
+function compile(code: string) {
+  return new FunctionConstructor('services', 'DataUtils', `${code}\n//# sourceURL=${SOURCE_URL}`);
+}
+
+// Position (ligne, colonne) de la première frame du script dans la pile
+function locate(err: unknown): { line: number; column: number } | null {
+  const stack = err instanceof Error ? err.stack ?? '' : '';
+  const patterns = [
+    new RegExp(`${SOURCE_URL.replace('.', '\\.')}:(\\d+):(\\d+)`),
+    /<anonymous>:(\d+):(\d+)/,
+    /> Function:(\d+):(\d+)/,
+  ];
+  for (const pattern of patterns) {
+    const match = pattern.exec(stack);
+    if (match) return { line: Number(match[1]), column: Number(match[2]) };
+  }
+  return null;
+}
+
+// Lignes ajoutées par le moteur avant le corps de la fonction
+const LINE_OFFSET = (() => {
+  try {
+    compile('throw new Error();')();
+  } catch (err) {
+    const position = locate(err);
+    if (position) return position.line - 1;
+  }
+  return 2;
+})();
+
+function hasDynamicImport(node: unknown): boolean {
+  if (!node || typeof node !== 'object') return false;
+  if ((node as { type?: string }).type === 'ImportExpression') return true;
+  return Object.values(node).some(child =>
+    Array.isArray(child) ? child.some(hasDynamicImport) : hasDynamicImport(child)
+  );
+}
+
+function checkSyntax(code: string): ScriptErrorInfo | null {
+  try {
+    const ast = parse(code, { ecmaVersion: 'latest', allowReturnOutsideFunction: true });
+    if (hasDynamicImport(ast)) {
+      return { kind: 'syntax', message: 'import() n\'est pas autorisé dans un script de transformation' };
+    }
+    return null;
+  } catch (err) {
+    const loc = (err as { loc?: { line: number; column: number } }).loc;
+    return {
+      kind: 'syntax',
+      message: err instanceof Error ? err.message.replace(/\s*\(\d+:\d+\)$/, '') : 'Erreur de syntaxe',
+      line: loc?.line,
+      column: loc ? loc.column + 1 : undefined,
+    };
+  }
+}
+
+function send(response: TransformResponse) {
+  try {
+    reply(response);
+  } catch {
+    reply({
+      ok: false,
+      error: {
+        kind: 'result',
+        message: 'Le résultat contient des valeurs non sérialisables (fonctions, symboles...)',
+      },
+    } satisfies TransformResponse);
+  }
+}
+
+self.onmessage = async (event: MessageEvent<TransformRequest>) => {
+  const { code, services, taxonomy } = event.data;
+
+  const syntaxError = checkSyntax(code);
+  if (syntaxError) {
+    send({ ok: false, error: syntaxError });
+    return;
+  }
+
+  try {
+    const result = await compile(code)(services, dataUtilsWithTaxonomy(taxonomy));
+    send({ ok: true, result });
+  } catch (err) {
+    const position = locate(err);
+    send({
+      ok: false,
+      error: {
+        kind: err instanceof SyntaxError && !position ? 'syntax' : 'runtime',
+        message: err instanceof Error ? err.message : String(err),
+        line: position ? position.line - LINE_OFFSET : undefined,
+        column: position?.column,
+      },
+    });
+  }
+};
@@ -0,0 +1,83 @@
+import { applyDeclarativeSchema, type DeclarativeSchema } from './declarativeSchema';
+import { DataUtils } from './dataUtils';
+import { filterServices, isEmptyFilter } from './filterExpression';
+import { runPipeline, type Pipeline } from './pipeline';
+import type { TransformFilters, TransformSettings } from './presets';
+import { categoryDescendants, resolveCategory, type CategoryTaxonomy } from './taxonomy';
+import type { Service, ServiceKeys } from './types';
+
+// Cœur de la transformation, sans dépendance au navigateur (page et CLI)
+
+export type TransformSpec =
+  | { mode: 'keys'; keys: ServiceKeys[] }
+  | { mode: 'declarative'; schema: DeclarativeSchema }
+  | { mode: 'script'; code: string }
+  | { mode: 'pipeline'; pipeline: Pipeline };
+
+export const DEFAULT_TRANSFORM_TIMEOUT_MS = 5000;
+
+// Exécution des scripts : worker isolé dans le navigateur, contexte vm en Node
+export type ScriptRunner = (code: string, services: Service[]) => Promise<unknown>;
+
+// Appliquer les filtres dans l'ordre de la page : recherche, catégories, institutions, statut, expression
+// (la taxonomie résout les alias et donne les sous-catégories en mode « descendants »)
+export function applyTransformFilters(
+  services: Service[],
+  filters: Partial<TransformFilters>,
+  taxonomy?: CategoryTaxonomy
+): Service[] {
+  let filtered = services;
+
+  if (filters.searchQuery) {
+    filtered = DataUtils.searchServices(filtered, filters.searchQuery);
+  }
+
+  if (filters.selectedCategories?.length) {
+    const categories = taxonomy && filters.categoryMatch === 'descendants'
+      ? filters.selectedCategories.flatMap(category => categoryDescendants(taxonomy, category))
+      : filters.selectedCategories;
+    const resolve = (cat: string) => (taxonomy ? resolveCategory(taxonomy, cat) : cat);
+    filtered = filtered.filter(service => service.categories.some(cat => categories.includes(resolve(cat))));
+  }
+
+  if (filters.selectedInstitutions?.length) {
+    const institutions = filters.selectedInstitutions;
+    filtered = filtered.filter(service => institutions.includes(service.institutionId));
+  }
+
+  if (filters.statusFilter && filters.statusFilter !== 'all') {
+    filtered = DataUtils.filterByStatus(filtered, filters.statusFilter);
+  }
+
+  if (filters.expression && !isEmptyFilter(filters.expression)) {
+    filtered = filterServices(filtered, filters.expression);
+  }
+
+  return filtered;
+}
+
+export function transformSpecFromSettings(settings: TransformSettings): TransformSpec {
+  if (settings.transformMode === 'keys') {
+    return { mode: 'keys', keys: settings.selectedKeys as ServiceKeys[] };
+  }
+  if (settings.transformMode === 'pipeline') {
+    return { mode: 'pipeline', pipeline: settings.pipeline };
+  }
+  return settings.customEditor === 'visual'
+    ? { mode: 'declarative', schema: settings.declarativeSchema }
+    : { mode: 'script', code: settings.customSchema };
+}
+
+export async function runTransform(services: Service[], spec: TransformSpec, runScript?: ScriptRunner): Promise<unknown> {
+  switch (spec.mode) {
+    case 'keys':
+      return DataUtils.formatServicesByKeys(services, spec.keys);
+    case 'declarative':
+      return applyDeclarativeSchema(services, spec.schema);
+    case 'script':
+      if (!runScript) throw new Error('Aucun exécuteur de script disponible');
+      return runScript(spec.code, services);
+    case 'pipeline':
+      return runPipeline(services, spec.pipeline, runScript);
+  }
+}
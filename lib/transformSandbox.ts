@@ -0,0 +1,103 @@
+import { DEFAULT_TRANSFORM_TIMEOUT_MS } from './transformCore';
+import type { CategoryTaxonomy } from './taxonomy';
+import type { Service } from './types';
+
+// Exécution isolée des scripts de transformation (Web Worker sous CSP, sans réseau)
+
+export type ScriptErrorKind = 'syntax' | 'runtime' | 'result' | 'timeout' | 'cancelled';
+
+export interface ScriptErrorInfo {
+  kind: ScriptErrorKind;
+  message: string;
+  // Position dans le script de l'utilisateur (base 1)
+  line?: number;
+  column?: number;
+}
+
+export interface TransformRequest {
+  code: string;
+  services: Service[];
+  // Taxonomie appliquée par défaut par les fonctions de catégories de DataUtils
+  taxonomy?: CategoryTaxonomy;
+}
+
+export type TransformResponse =
+  | { ok: true; result: unknown }
+  | { ok: false; error: ScriptErrorInfo };
+
+export class TransformScriptError extends Error {
+  readonly kind: ScriptErrorKind;
+  readonly line?: number;
+  readonly column?: number;
+
+  constructor(info: ScriptErrorInfo) {
+    super(info.message);
+    this.name = 'TransformScriptError';
+    this.kind = info.kind;
+    this.line = info.line;
+    this.column = info.column;
+  }
+}
+
+export interface SandboxOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  taxonomy?: CategoryTaxonomy;
+}
+
+// Worker classique servi tel quel (npm run build:worker), avec sa propre CSP sans accès réseau (next.config.ts)
+const WORKER_URL = '/transform.worker.js';
+
+// Lancer un script dans un worker jetable, arrêté à la fin, au délai ou à l'annulation
+export function runSandboxedTransform(
+  code: string,
+  services: Service[],
+  { timeoutMs = DEFAULT_TRANSFORM_TIMEOUT_MS, signal, taxonomy }: SandboxOptions = {}
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TransformScriptError({ kind: 'cancelled', message: 'Transformation annulée' }));
+      return;
+    }
+
+    const worker = new Worker(WORKER_URL);
+
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+
+    const onAbort = () => {
+      finish();
+      reject(new TransformScriptError({ kind: 'cancelled', message: 'Transformation annulée' }));
+    };
+
+    const timer = setTimeout(() => {
+      finish();
+      reject(new TransformScriptError({
+        kind: 'timeout',
+        message: `Délai dépassé: le script n'a pas terminé en ${timeoutMs / 1000} s`,
+      }));
+    }, timeoutMs);
+
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<TransformResponse>) => {
+      finish();
+      if (event.data.ok) {
+        resolve(event.data.result);
+      } else {
+        reject(new TransformScriptError(event.data.error));
+      }
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      reject(new TransformScriptError({ kind: 'runtime', message: event.message || 'Erreur du worker' }));
+    };
+
+    worker.postMessage({ code, services, taxonomy } satisfies TransformRequest);
+  });
+}
@@ -0,0 +1,76 @@
+// Types partagés entre le client et les routes serveur
+export interface Service {
+  name: string;
+  id: string;
+  categories: string[];
+  description: string;
+  status: "Actif" | "Inactif";
+  isActive: boolean;
+  institutionId: string;
+  icon: string | null;
+  url?: string;
+  // Nom résolu à partir des métadonnées d'institutions (absent des données source)
+  institutionName?: string;
+}
+
+// Institution (ministère, agence...) référencée par Service.institutionId
+export interface Institution {
+  id: string;
+  name: string;
+  acronym?: string;
+  url?: string;
+}
+
+export interface ApiResponse {
+  services: Service[];
+  categories?: string[];
+  institutions?: Institution[];
+}
+
+export type ServiceKeys = keyof Service;
+
+// Instantané daté du catalogue conservé côté serveur
+export interface SnapshotInfo {
+  id: string;
+  variant: string;
+  fetchedAt: string;
+  checkedAt: string;
+  etag: string | null;
+  lastModified: string | null;
+  serviceCount: number;
+  categoryCount: number;
+}
+
+export interface CatalogueResponse extends ApiResponse {
+  snapshot: SnapshotInfo & {
+    source: 'upstream' | 'cache' | 'revalidated' | 'fallback' | 'archive';
+    stale: boolean;
+    warning?: string;
+    // false : réponse du portail non enregistrée (écriture du cache impossible)
+    cached?: boolean;
+  };
+}
+
+export interface InstitutionsResponse {
+  institutions: Institution[];
+  fetchedAt: string;
+  source: 'upstream' | 'cache' | 'fallback';
+}
+
+// Erreurs renvoyées par les routes /api
+export type ApiErrorCode =
+  | 'UPSTREAM_UNREACHABLE'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_HTTP'
+  | 'INVALID_JSON'
+  | 'INVALID_SHAPE'
+  | 'SNAPSHOT_NOT_FOUND'
+  | 'INVALID_PARAMETER'
+  | 'NOT_ACCEPTABLE';
+
+export interface ApiError {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+  };
+}
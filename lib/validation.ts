@@ -0,0 +1,260 @@
+import { parseInstitutions } from './institutions';
+import type { Institution, Service } from './types';
+
+// Validation et normalisation des services chargés (API ou saisie manuelle)
+
+export interface RecordReport {
+  index: number;
+  id?: string;
+  name?: string;
+  // Raisons de rejet de l'enregistrement
+  errors: string[];
+  // Corrections appliquées automatiquement
+  fixes: string[];
+  // Statut d'origine contredit par isActive (le statut a été aligné)
+  statusConflict?: { status: Service['status']; isActive: boolean };
+}
+
+export interface ValidationReport {
+  total: number;
+  valid: Service[];
+  invalid: RecordReport[];
+  normalized: RecordReport[];
+  // Position dans la liste reçue de chaque service de valid (les rejets décalent les suivants)
+  positions: number[];
+}
+
+// Rapport d'une réponse complète : métadonnées jointes et emplacement de la liste des services
+export interface ApiValidationReport extends ValidationReport {
+  categories?: string[];
+  institutions?: Institution[];
+  // Pointeur JSON (RFC 6901) de la liste dans le document reçu ; '' si le document est la liste
+  listPointer: string;
+}
+
+const SERVICE_FIELDS = new Set<string>([
+  'name', 'id', 'categories', 'description', 'status', 'isActive', 'institutionId', 'icon', 'url'
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isScalar = (value: unknown): value is string | number | boolean =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+function normalizeStatus(value: unknown): Service['status'] | undefined {
+  if (typeof value !== 'string') return undefined;
+  const status = value.trim().toLowerCase();
+  if (['actif', 'active', 'activé'].includes(status)) return 'Actif';
+  if (['inactif', 'inactive', 'désactivé'].includes(status)) return 'Inactif';
+  return undefined;
+}
+
+function normalizeBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (value === 1 || value === '1' || value === 'true') return true;
+  if (value === 0 || value === '0' || value === 'false') return false;
+  return undefined;
+}
+
+// Valider un enregistrement et le ramener à la forme Service
+export function normalizeService(raw: unknown, index: number): { service?: Service; report: RecordReport } {
+  const report: RecordReport = { index, errors: [], fixes: [] };
+
+  if (!isPlainObject(raw)) {
+    report.errors.push(`Enregistrement de type ${Array.isArray(raw) ? 'tableau' : raw === null ? 'null' : typeof raw} au lieu d'un objet`);
+    return { report };
+  }
+
+  // Identifiant
+  let id = '';
+  if (typeof raw.id === 'string' && raw.id.trim()) {
+    id = raw.id;
+  } else if (typeof raw.id === 'number') {
+    id = String(raw.id);
+    report.fixes.push('id numérique converti en texte');
+  } else {
+    report.errors.push('id manquant ou invalide');
+  }
+  report.id = id || undefined;
+
+  // Nom
+  let name = '';
+  if (typeof raw.name === 'string' && raw.name.trim()) {
+    name = raw.name;
+  } else if (typeof raw.name === 'number') {
+    name = String(raw.name);
+    report.fixes.push('name converti en texte');
+  } else {
+    report.errors.push('name manquant ou invalide');
+  }
+  report.name = name || undefined;
+
+  // Catégories
+  let categories: string[] = [];
+  if (Array.isArray(raw.categories)) {
+    categories = raw.categories.filter(isScalar).map(c => String(c).trim()).filter(Boolean);
+    if (categories.length !== raw.categories.length) {
+      report.fixes.push('catégories vides ou non textuelles retirées');
+    }
+  } else if (raw.categories === null || raw.categories === undefined) {
+    report.fixes.push('categories absent, remplacé par une liste vide');
+  } else if (typeof raw.categories === 'string') {
+    categories = raw.categories.split(/[;,]/).map(c => c.trim()).filter(Boolean);
+    report.fixes.push('categories texte découpé en liste');
+  } else {
+    report.errors.push(`categories de type ${typeof raw.categories} au lieu d'une liste`);
+  }
+
+  // Description
+  let description = '';
+  if (typeof raw.description === 'string') {
+    description = raw.description;
+  } else if (raw.description === null || raw.description === undefined) {
+    report.fixes.push('description absente, remplacée par une chaîne vide');
+  } else if (isScalar(raw.description)) {
+    description = String(raw.description);
+    report.fixes.push('description convertie en texte');
+  } else {
+    report.errors.push(`description de type ${typeof raw.description} au lieu d'un texte`);
+  }
+
+  // Statut et isActive
+  const status = normalizeStatus(raw.status);
+  const isActive = normalizeBoolean(raw.isActive);
+  if (raw.status !== undefined && !status) {
+    report.fixes.push(`statut inconnu "${String(raw.status)}" ignoré`);
+  } else if (status && status !== raw.status) {
+    report.fixes.push(`statut "${String(raw.status)}" normalisé en "${status}"`);
+  }
+  if (raw.isActive !== undefined && isActive === undefined) {
+    report.fixes.push(`isActive invalide "${String(raw.isActive)}" ignoré`);
+  } else if (isActive !== undefined && typeof raw.isActive !== 'boolean') {
+    report.fixes.push('isActive converti en booléen');
+  }
+
+  let resolvedActive: boolean;
+  if (isActive !== undefined) {
+    resolvedActive = isActive;
+    if (status && (status === 'Actif') !== isActive) {
+      report.fixes.push(`statut "${status}" en désaccord avec isActive=${isActive}, aligné sur isActive`);
+      report.statusConflict = { status, isActive };
+    } else if (!status) {
+      report.fixes.push('statut déduit de isActive');
+    }
+  } else if (status) {
+    resolvedActive = status === 'Actif';
+    report.fixes.push('isActive déduit du statut');
+  } else {
+    resolvedActive = false;
+    report.errors.push('ni status ni isActive exploitable');
+  }
+
+  // Institution
+  let institutionId = '';
+  if (typeof raw.institutionId === 'string') {
+    institutionId = raw.institutionId;
+  } else if (typeof raw.institutionId === 'number') {
+    institutionId = String(raw.institutionId);
+    report.fixes.push('institutionId converti en texte');
+  } else {
+    report.fixes.push('institutionId absent, remplacé par une chaîne vide');
+  }
+
+  // Icône
+  let icon: string | null = null;
+  if (typeof raw.icon === 'string' && raw.icon) {
+    icon = raw.icon;
+  } else if (raw.icon !== null && raw.icon !== undefined && raw.icon !== '') {
+    report.fixes.push('icon invalide remplacé par null');
+  }
+
+  // URL
+  let url: string | undefined;
+  if (typeof raw.url === 'string' && raw.url.trim()) {
+    url = raw.url.trim();
+  } else if (raw.url !== undefined && raw.url !== null && raw.url !== '') {
+    report.fixes.push('url invalide ignorée');
+  }
+
+  const extraFields = Object.keys(raw).filter(key => !SERVICE_FIELDS.has(key));
+  if (extraFields.length > 0) {
+    report.fixes.push(`champs supplémentaires ignorés: ${extraFields.join(', ')}`);
+  }
+
+  if (report.errors.length > 0) {
+    return { report };
+  }
+
+  const service: Service = {
+    name,
+    id,
+    categories,
+    description,
+    status: resolvedActive ? 'Actif' : 'Inactif',
+    isActive: resolvedActive,
+    institutionId,
+    icon,
+  };
+  if (url !== undefined) service.url = url;
+
+  return { service, report };
+}
+
+// Valider une liste d'enregistrements
+export function validateServices(records: unknown[]): ValidationReport {
+  const report: ValidationReport = { total: records.length, valid: [], invalid: [], normalized: [], positions: [] };
+  const seenIds = new Set<string>();
+
+  records.forEach((raw, index) => {
+    const { service, report: recordReport } = normalizeService(raw, index);
+
+    if (service && seenIds.has(service.id)) {
+      recordReport.errors.push(`id dupliqué "${service.id}"`);
+    }
+
+    if (!service || recordReport.errors.length > 0) {
+      report.invalid.push(recordReport);
+      return;
+    }
+
+    seenIds.add(service.id);
+    report.valid.push(service);
+    report.positions.push(index);
+    if (recordReport.fixes.length > 0) {
+      report.normalized.push(recordReport);
+    }
+  });
+
+  return report;
+}
+
+// Valider une réponse ApiResponse ou un tableau de services
+export function validateApiResponse(data: unknown): ApiValidationReport {
+  if (Array.isArray(data)) {
+    return { ...validateServices(data), listPointer: '' };
+  }
+  if (isPlainObject(data) && Array.isArray(data.services)) {
+    const categories = Array.isArray(data.categories)
+      ? data.categories.filter((c): c is string => typeof c === 'string')
+      : undefined;
+    return {
+      ...validateServices(data.services),
+      categories,
+      institutions: readInstitutions(data.institutions),
+      listPointer: '/services',
+    };
+  }
+  throw new Error('Format de données invalide: attendu { services: [...] } ou un tableau de services');
+}
+
+// Métadonnées d'institutions jointes aux services (facultatives, ignorées si illisibles)
+function readInstitutions(value: unknown): Institution[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  try {
+    return parseInstitutions(value);
+  } catch (err) {
+    console.warn('Institutions jointes ignorées:', err);
+    return undefined;
+  }
+}
@@ -1,7 +1,25 @@
 import type { NextConfig } from "next";
 
+// CSP du worker des scripts de transformation (public/transform.worker.js, construit par build:worker) :
+// scripts de l'application seulement, aucune connexion réseau
+const TRANSFORM_WORKER_CSP = [
+  "default-src 'none'",
+  "script-src 'self' 'unsafe-eval'",
+  "connect-src 'none'",
+].join('; ');
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  async headers() {
+    return [
+      {
+        source: '/transform.worker.js',
+        headers: [
+          { key: 'Content-Security-Policy', value: TRANSFORM_WORKER_CSP },
+          { key: 'Cache-Control', value: 'no-store' },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;